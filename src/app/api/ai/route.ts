@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { validateSymbol } from "@/lib/validation";
+import { upstreamFetch, resolveApiKey } from "@/lib/upstream";
+import { createCache } from "@/lib/cache";
+import { singleFlight, flightKey } from "@/lib/single-flight";
+import { classifySymbol, hasFundamentals } from "@/lib/assets";
+import { daysUntil, formatCalendarDate, formatCompactMoney, formatMoney } from "@/lib/format";
+import { getCompanyProfile } from "@/lib/fundamentals";
+import { getEarnings } from "@/lib/earnings";
+import { apiError } from "@/lib/errors";
+import { adjustBars, getMarketDataProvider, parseAlphaVantagePayload } from "@/lib/providers";
+import { array, number, numeric, object, optional, parse, SchemaError, string, type Infer } from "@/lib/schema";
+import { candlesSinceSignChange, getMACDSignal, getRSISignal, macd, rsi, valueAgo, type Series } from "@/lib/indicators";
+import { computePriceLevels } from "@/lib/levels";
+import type { AssetType, CompanyProfile, EarningsData, PriceLevels } from "@/lib/types";
 
 const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
 const ALPHA_VANTAGE_BASE_URL = "https://www.alphavantage.co/query";
@@ -7,11 +20,9 @@ const ALPHA_VANTAGE_BASE_URL = "https://www.alphavantage.co/query";
 // Cache configuration
 const CACHE_DURATION_MS = 60 * 60 * 1000; // 1 hour for AI analysis
 const ALPHA_VANTAGE_CACHE_MS = 15 * 60 * 1000; // 15 minutes for Alpha Vantage data
-const FUNDAMENTALS_CACHE_MS = 60 * 60 * 1000; // 1 hour for fundamentals (changes less often)
 
-interface CacheEntry {
+interface CachedAnalysis {
   analysis: AIAnalysis;
-  timestamp: number;
   stockPrice: number;
 }
 
@@ -35,9 +46,17 @@ interface AIAnalysis {
   riskFactors: string[];
 }
 
-// In-memory caches
-const analysisCache = new Map<string, CacheEntry>();
-const alphaVantageCache = new Map<string, { data: unknown; timestamp: number }>();
+// Server caches
+const analysisCache = createCache<CachedAnalysis>({
+  namespace: "ai-analysis",
+  ttlMs: CACHE_DURATION_MS,
+  maxEntries: 200,
+});
+const alphaVantageCache = createCache<unknown>({
+  namespace: "alpha-vantage",
+  ttlMs: ALPHA_VANTAGE_CACHE_MS,
+  maxEntries: 1000,
+});
 
 interface AIRequestBody {
   symbol: string;
@@ -53,33 +72,20 @@ interface AIRequestBody {
     volume: number;
     sharpeRatio: number;
     trend: string;
+    range?: string;
+    assetType?: AssetType;
+    currency?: string;
   };
 }
 
-// Alpha Vantage data interfaces
-interface RSIData {
-  value: number;
-  signal: string;
-}
-
-interface MACDData {
-  macd: number;
-  signal: number;
-  histogram: number;
-  trend: string;
-}
-
-interface CompanyOverview {
-  marketCap: string;
-  peRatio: string;
-  eps: string;
-  fiftyTwoWeekHigh: string;
-  fiftyTwoWeekLow: string;
-  dividendYield: string;
-  sector: string;
-  industry: string;
+// Daily indicator series, oldest first
+interface Technicals {
+  rsi: Series;
+  macd: { macd: Series; signal: Series; histogram: Series };
+  levels: PriceLevels | null;
 }
 
+// Alpha Vantage data interfaces
 interface NewsSentiment {
   title: string;
   sentiment: string;
@@ -88,156 +94,200 @@ interface NewsSentiment {
   timeAgo: string;
 }
 
-// Helper to get cached Alpha Vantage data
-function getCachedData<T>(key: string, maxAge: number): T | null {
-  const cached = alphaVantageCache.get(key);
-  if (cached && Date.now() - cached.timestamp < maxAge) {
-    return cached.data as T;
+// Scores arrive as numbers overall and as numeric strings per ticker
+const newsSentimentSchema = object({
+  feed: optional(
+    array(
+      object({
+        title: string,
+        source: string,
+        // e.g. "20240315T143000"
+        time_published: string,
+        overall_sentiment_score: numeric,
+        overall_sentiment_label: optional(string),
+        ticker_sentiment: optional(
+          array(
+            object({
+              ticker: string,
+              ticker_sentiment_score: numeric,
+              ticker_sentiment_label: optional(string),
+            })
+          )
+        ),
+      })
+    )
+  ),
+});
+
+// OpenRouter's OpenAI-style completion; failed requests carry error instead of choices
+const completionSchema = object({
+  model: optional(string),
+  choices: optional(
+    array(
+      object({
+        message: optional(object({ content: optional(string) })),
+      })
+    )
+  ),
+  usage: optional(
+    object({
+      prompt_tokens: optional(number),
+      completion_tokens: optional(number),
+      total_tokens: optional(number),
+    })
+  ),
+  error: optional(object({ message: optional(string) })),
+});
+
+function parseCompletion(body: unknown): Infer<typeof completionSchema> | null {
+  try {
+    return parse(completionSchema, body);
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    console.error(`Schema drift in OpenRouter completion payload at ${error.path || "(root)"}: expected ${error.expected}, got ${error.received}`);
+    return null;
   }
-  return null;
+}
+
+// Helper to get cached Alpha Vantage data
+async function getCachedData<T>(key: string): Promise<T | null> {
+  const cached = await alphaVantageCache.getFresh(key);
+  return cached ? (cached.value as T) : null;
 }
 
 // Helper to set cached data
-function setCachedData(key: string, data: unknown): void {
-  alphaVantageCache.set(key, { data, timestamp: Date.now() });
+async function setCachedData(key: string, data: unknown, ttlMs: number = ALPHA_VANTAGE_CACHE_MS): Promise<void> {
+  await alphaVantageCache.set(key, data, { ttlMs });
 }
 
-// Fetch RSI from Alpha Vantage
-async function fetchRSI(symbol: string, apiKey: string): Promise<RSIData | null> {
-  const cacheKey = `rsi_${symbol}`;
-  const cached = getCachedData<RSIData>(cacheKey, ALPHA_VANTAGE_CACHE_MS);
-  if (cached) return cached;
+// Concurrent requests for the same function and symbol share one Alpha Vantage call (free tier quota)
+function fetchAlphaVantageJson(fn: string, symbol: string, url: string): Promise<unknown> {
+  return singleFlight(flightKey("alphavantage", symbol, { function: fn }), async () => {
+    const response = await upstreamFetch(url);
+    return response.json();
+  });
+}
 
+// Indicators and price levels from a year of daily candles; works for every asset type and spends no Alpha Vantage quota
+async function loadTechnicals(symbol: string): Promise<Technicals | null> {
   try {
-    const url = `${ALPHA_VANTAGE_BASE_URL}?function=RSI&symbol=${symbol}&interval=daily&time_period=14&series_type=close&apikey=${apiKey}`;
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (data.Note || data.Information || !data["Technical Analysis: RSI"]) {
-      return null;
-    }
-
-    const rsiData = data["Technical Analysis: RSI"];
-    const latestDate = Object.keys(rsiData)[0];
-    const rsiValue = parseFloat(rsiData[latestDate].RSI);
-
-    let signal = "Neutral";
-    if (rsiValue >= 70) signal = "Overbought";
-    else if (rsiValue >= 60) signal = "Bullish";
-    else if (rsiValue <= 30) signal = "Oversold";
-    else if (rsiValue <= 40) signal = "Bearish";
-
-    const result: RSIData = { value: rsiValue, signal };
-    setCachedData(cacheKey, result);
-    return result;
+    const { bars } = await getMarketDataProvider().getHistory(symbol, { range: "1y", interval: "1d" });
+    const candles = adjustBars(bars);
+    const closes = candles.map((bar) => bar.close);
+    const timestamps = candles.map((bar) => new Date(bar.timestamp * 1000).toISOString());
+    return { rsi: rsi(closes), macd: macd(closes), levels: computePriceLevels(candles, timestamps) };
   } catch (error) {
-    console.error("Failed to fetch RSI:", error);
+    console.error("Failed to load daily history for indicators:", error);
     return null;
   }
 }
 
-// Fetch MACD from Alpha Vantage
-async function fetchMACD(symbol: string, apiKey: string): Promise<MACDData | null> {
-  const cacheKey = `macd_${symbol}`;
-  const cached = getCachedData<MACDData>(cacheKey, ALPHA_VANTAGE_CACHE_MS);
-  if (cached) return cached;
+// Sessions back the prompt compares against, so the model sees where an indicator came from
+const TREND_LOOKBACKS = [5, 20];
 
-  try {
-    const url = `${ALPHA_VANTAGE_BASE_URL}?function=MACD&symbol=${symbol}&interval=daily&series_type=close&apikey=${apiKey}`;
-    const response = await fetch(url);
-    const data = await response.json();
+function formatPath(series: Series, digits: number): string | null {
+  const points = TREND_LOOKBACKS.flatMap((sessions) => {
+    const value = valueAgo(series, sessions);
+    return value === null ? [] : [`${value.toFixed(digits)} ${sessions} sessions ago`];
+  });
+  return points.length > 0 ? points.join(", ") : null;
+}
 
-    if (data.Note || data.Information || !data["Technical Analysis: MACD"]) {
-      return null;
-    }
+function formatTechnicalsForPrompt(technicals: Technicals): string {
+  const lines: string[] = [];
 
-    const macdData = data["Technical Analysis: MACD"];
-    const latestDate = Object.keys(macdData)[0];
-    const latest = macdData[latestDate];
+  const rsiValue = valueAgo(technicals.rsi, 0);
+  if (rsiValue !== null) {
+    const path = formatPath(technicals.rsi, 2);
+    lines.push(`RSI (14-day): ${rsiValue.toFixed(2)} (${getRSISignal(rsiValue)})${path ? `, was ${path}` : ""}`);
+  }
 
-    const macd = parseFloat(latest.MACD);
-    const signal = parseFloat(latest.MACD_Signal);
-    const histogram = parseFloat(latest.MACD_Hist);
+  const { macd: line, signal, histogram } = technicals.macd;
+  const macdValue = valueAgo(line, 0);
+  const signalValue = valueAgo(signal, 0);
+  const histogramValue = valueAgo(histogram, 0);
+  if (macdValue !== null && signalValue !== null && histogramValue !== null) {
+    const trend = getMACDSignal(histogramValue, valueAgo(histogram, 1));
+    lines.push(
+      `MACD: ${macdValue.toFixed(4)}, Signal: ${signalValue.toFixed(4)}, Histogram: ${histogramValue.toFixed(4)} (${trend})`
+    );
 
-    let trend = "Neutral";
-    if (histogram > 0 && macd > signal) trend = "Bullish";
-    else if (histogram < 0 && macd < signal) trend = "Bearish";
+    const path = formatPath(histogram, 4);
+    if (path) {
+      lines.push(`MACD Histogram was ${path}`);
+    }
 
-    const result: MACDData = { macd, signal, histogram, trend };
-    setCachedData(cacheKey, result);
-    return result;
-  } catch (error) {
-    console.error("Failed to fetch MACD:", error);
-    return null;
+    const sinceCross = candlesSinceSignChange(histogram);
+    if (sinceCross !== null) {
+      lines.push(
+        `MACD crossed ${histogramValue > 0 ? "above" : "below"} its signal line ${sinceCross} session${sinceCross === 1 ? "" : "s"} ago`
+      );
+    }
   }
+
+  return lines.join("\n");
 }
 
-// Fetch Company Overview from Alpha Vantage
-async function fetchCompanyOverview(symbol: string, apiKey: string): Promise<CompanyOverview | null> {
-  const cacheKey = `overview_${symbol}`;
-  const cached = getCachedData<CompanyOverview>(cacheKey, FUNDAMENTALS_CACHE_MS);
-  if (cached) return cached;
+function formatLevelsForPrompt(levels: PriceLevels, currency: string): string {
+  const money = (value: number | null) => (value === null ? "N/A" : formatMoney(value, currency));
+  const lines = [`Nearest Support: ${money(levels.nearestSupport)} | Nearest Resistance: ${money(levels.nearestResistance)}`];
 
-  try {
-    const url = `${ALPHA_VANTAGE_BASE_URL}?function=OVERVIEW&symbol=${symbol}&apikey=${apiKey}`;
-    const response = await fetch(url);
-    const data = await response.json();
+  if (levels.swings.length > 0) {
+    const swings = levels.swings.map(
+      (swing) => `${money(swing.price)} (${swing.kind}, ${swing.touches} touch${swing.touches === 1 ? "" : "es"})`
+    );
+    lines.push(`Swing Levels: ${swings.join(", ")}`);
+  }
 
-    if (data.Note || data.Information || !data.Symbol) {
-      return null;
-    }
+  for (const set of levels.pivots) {
+    const resistance = set.resistance.map((price, i) => `R${i + 1} ${money(price)}`).join(", ");
+    const support = set.support.map((price, i) => `S${i + 1} ${money(price)}`).join(", ");
+    const method = set.method.charAt(0).toUpperCase() + set.method.slice(1);
+    lines.push(`${method} Pivots: P ${money(set.pivot)} | ${resistance} | ${support}`);
+  }
 
-    const result: CompanyOverview = {
-      marketCap: formatMarketCap(data.MarketCapitalization),
-      peRatio: data.PERatio || "N/A",
-      eps: data.EPS || "N/A",
-      fiftyTwoWeekHigh: data["52WeekHigh"] || "N/A",
-      fiftyTwoWeekLow: data["52WeekLow"] || "N/A",
-      dividendYield: data.DividendYield ? `${(parseFloat(data.DividendYield) * 100).toFixed(2)}%` : "N/A",
-      sector: data.Sector || "N/A",
-      industry: data.Industry || "N/A",
-    };
-    setCachedData(cacheKey, result);
-    return result;
-  } catch (error) {
-    console.error("Failed to fetch company overview:", error);
-    return null;
+  for (const gap of levels.gaps) {
+    lines.push(`Open Gap ${gap.direction}: ${money(gap.bottom)} to ${money(gap.top)} (opened ${formatCalendarDate(gap.timestamp.slice(0, 10))})`);
   }
+
+  return lines.join("\n");
 }
 
 // Fetch News Sentiment from Alpha Vantage
 async function fetchNewsSentiment(symbol: string, apiKey: string): Promise<{ items: NewsSentiment[]; overall: number } | null> {
   const cacheKey = `news_${symbol}`;
-  const cached = getCachedData<{ items: NewsSentiment[]; overall: number }>(cacheKey, ALPHA_VANTAGE_CACHE_MS);
+  const cached = await getCachedData<{ items: NewsSentiment[]; overall: number }>(cacheKey);
   if (cached) return cached;
 
   try {
     const url = `${ALPHA_VANTAGE_BASE_URL}?function=NEWS_SENTIMENT&tickers=${symbol}&limit=5&apikey=${apiKey}`;
-    const response = await fetch(url);
-    const data = await response.json();
+    const data = parseAlphaVantagePayload(
+      newsSentimentSchema,
+      await fetchAlphaVantageJson("NEWS_SENTIMENT", symbol, url),
+      "NEWS_SENTIMENT"
+    );
 
-    if (data.Note || data.Information || !data.feed) {
+    if (!data.feed) {
       return null;
     }
 
     let totalScore = 0;
-    const items: NewsSentiment[] = data.feed.slice(0, 3).map((item: Record<string, unknown>) => {
-      const tickerSentiment = (item.ticker_sentiment as Array<{ ticker: string; ticker_sentiment_score: string; ticker_sentiment_label: string }>) || [];
-      const symbolSentiment = tickerSentiment.find(t => t.ticker === symbol);
-      const score = parseFloat(symbolSentiment?.ticker_sentiment_score || item.overall_sentiment_score as string || "0");
+    const items: NewsSentiment[] = data.feed.slice(0, 3).map((item) => {
+      const symbolSentiment = item.ticker_sentiment?.find(t => t.ticker === symbol);
+      const score = symbolSentiment?.ticker_sentiment_score ?? item.overall_sentiment_score ?? 0;
       totalScore += score;
 
       return {
-        title: (item.title as string)?.slice(0, 80) + ((item.title as string)?.length > 80 ? "..." : ""),
-        sentiment: mapSentimentLabel(symbolSentiment?.ticker_sentiment_label || item.overall_sentiment_label as string || "Neutral"),
+        title: item.title.slice(0, 80) + (item.title.length > 80 ? "..." : ""),
+        sentiment: mapSentimentLabel(symbolSentiment?.ticker_sentiment_label || item.overall_sentiment_label || "Neutral"),
         score,
-        source: item.source as string,
-        timeAgo: formatTimeAgo(item.time_published as string),
+        source: item.source,
+        timeAgo: formatTimeAgo(item.time_published),
       };
     });
 
     const result = { items, overall: items.length > 0 ? totalScore / items.length : 0 };
-    setCachedData(cacheKey, result);
+    await setCachedData(cacheKey, result);
     return result;
   } catch (error) {
     console.error("Failed to fetch news sentiment:", error);
@@ -252,13 +302,56 @@ function mapSentimentLabel(label: string): string {
   return "Neutral";
 }
 
-function formatMarketCap(value: string): string {
-  const num = parseFloat(value);
-  if (isNaN(num)) return "N/A";
-  if (num >= 1e12) return `$${(num / 1e12).toFixed(2)}T`;
-  if (num >= 1e9) return `$${(num / 1e9).toFixed(2)}B`;
-  if (num >= 1e6) return `$${(num / 1e6).toFixed(2)}M`;
-  return `$${num.toLocaleString()}`;
+function formatPercent(fraction: number | null): string {
+  return fraction === null ? "N/A" : `${(fraction * 100).toFixed(2)}%`;
+}
+
+function formatProfileForPrompt(profile: CompanyProfile, currency: string): string {
+  const money = (value: number | null) => (value === null ? "N/A" : formatMoney(value, currency));
+  return [
+    `Market Cap: ${profile.marketCap === null ? "N/A" : formatCompactMoney(profile.marketCap, currency)}`,
+    `P/E Ratio: ${profile.peRatio ?? "N/A"}`,
+    `EPS: ${money(profile.eps)}`,
+    `Beta: ${profile.beta ?? "N/A"}`,
+    `Profit Margin: ${formatPercent(profile.profitMargin)}`,
+    `Operating Margin: ${formatPercent(profile.operatingMargin)}`,
+    `52-Week High: ${money(profile.fiftyTwoWeekHigh)}`,
+    `52-Week Low: ${money(profile.fiftyTwoWeekLow)}`,
+    `Dividend Yield: ${formatPercent(profile.dividendYield)}`,
+    `Sector: ${profile.sector ?? "N/A"}`,
+    `Industry: ${profile.industry ?? "N/A"}`,
+  ].join("\n");
+}
+
+function formatEarningsForPrompt(earnings: EarningsData, currency: string): string {
+  const eps = (value: number | null) => (value === null ? "N/A" : formatMoney(value, currency));
+  const lines: string[] = [];
+
+  if (earnings.next) {
+    const { date, timing, confirmed, epsEstimate } = earnings.next;
+    const details = [
+      `in ${daysUntil(date)} days`,
+      timing,
+      confirmed === false ? "estimated date" : null,
+    ].filter(Boolean);
+    lines.push(`Next Report: ${formatCalendarDate(date)} (${details.join(", ")})`);
+    lines.push(`EPS Estimate: ${eps(epsEstimate)}`);
+  } else {
+    lines.push("Next Report: not scheduled yet");
+  }
+
+  if (earnings.history.length > 0) {
+    lines.push("Recent Quarters (EPS actual vs estimate):");
+    for (const quarter of earnings.history.slice(0, 4)) {
+      const surprise =
+        quarter.surprisePercent === null
+          ? ""
+          : ` (${quarter.surprisePercent >= 0 ? "+" : ""}${quarter.surprisePercent.toFixed(1)}% surprise)`;
+      lines.push(`- ${formatCalendarDate(quarter.fiscalPeriod)}: ${eps(quarter.epsActual)} vs ${eps(quarter.epsEstimate)}${surprise}`);
+    }
+  }
+
+  return lines.join("\n");
 }
 
 function formatTimeAgo(dateString: string): string {
@@ -289,69 +382,74 @@ function formatVolume(volume: number): string {
 
 export async function POST(request: NextRequest) {
   try {
-    const openRouterKey = process.env.OPENROUTER_API_KEY;
-    const alphaVantageKey = process.env.ALPHA_VANTAGE_API_KEY;
+    const openRouterKey = resolveApiKey("OPENROUTER_API_KEY");
+    const alphaVantageKey = resolveApiKey("ALPHA_VANTAGE_API_KEY");
 
     if (!openRouterKey) {
-      return NextResponse.json(
-        { error: "API key not configured", message: "OpenRouter API key is not set" },
-        { status: 500 }
-      );
+      return apiError("CONFIG_MISSING", "OpenRouter API key is not set");
     }
 
     const body: AIRequestBody = await request.json();
 
     const symbol = validateSymbol(body.symbol);
     if (!symbol) {
-      return NextResponse.json(
-        { error: "Invalid symbol", message: "Stock symbol is invalid" },
-        { status: 400 }
-      );
+      return apiError("INVALID_SYMBOL", "Stock symbol is invalid");
     }
 
     const { stockData, forceRefresh, model } = body;
     const selectedModel = model || "google/gemini-2.5-flash";
 
+    // The analysis depends on the Sharpe ratio, which depends on the chart range
+    const cacheKey = `${symbol}:${stockData.range || "5d"}`;
+
     // Check cache (unless force refresh is requested)
     if (!forceRefresh) {
-      const cached = analysisCache.get(symbol);
+      const cached = await analysisCache.getFresh(cacheKey);
       if (cached) {
-        const now = Date.now();
-        const age = now - cached.timestamp;
-
-        if (age < CACHE_DURATION_MS) {
-          const cachedAt = new Date(cached.timestamp);
-          return NextResponse.json({
-            analysis: cached.analysis,
-            model: selectedModel,
-            cached: true,
-            cachedAt: cachedAt.toISOString(),
-            expiresIn: Math.round((CACHE_DURATION_MS - age) / 1000 / 60),
-          });
-        }
+        return NextResponse.json({
+          analysis: cached.value.analysis,
+          model: selectedModel,
+          cached: true,
+          cachedAt: new Date(cached.storedAt).toISOString(),
+          expiresIn: Math.round((cached.expiresAt - Date.now()) / 1000 / 60),
+        });
       }
     }
 
     // Fetch Alpha Vantage data in parallel (if API key is available)
-    let rsiData: RSIData | null = null;
-    let macdData: MACDData | null = null;
-    let overview: CompanyOverview | null = null;
+    let profile: CompanyProfile | null = null;
     let newsSentiment: { items: NewsSentiment[]; overall: number } | null = null;
 
-    if (alphaVantageKey) {
+    // Alpha Vantage only covers listed companies and funds, so skip it for indices, FX, futures and crypto
+    const assetType = stockData.assetType ?? classifySymbol(symbol);
+    // Price targets come back in the listing's currency, not necessarily dollars.
+    // Case matters here: Yahoo's GBp means pence, not pounds.
+    const currency = stockData.currency && /^[A-Za-z]{3}$/.test(stockData.currency) ? stockData.currency : "USD";
+
+    // Earnings come from the market data provider, so they don't need an Alpha Vantage key
+    const earningsRequest: Promise<EarningsData | null> = hasFundamentals(assetType)
+      ? getEarnings(symbol).catch((error) => {
+          console.error("Failed to fetch earnings:", error);
+          return null;
+        })
+      : Promise.resolve(null);
+    const technicalsRequest = loadTechnicals(symbol);
+
+    if (alphaVantageKey && hasFundamentals(assetType)) {
       const results = await Promise.allSettled([
-        fetchRSI(symbol, alphaVantageKey),
-        fetchMACD(symbol, alphaVantageKey),
-        fetchCompanyOverview(symbol, alphaVantageKey),
+        getCompanyProfile(symbol),
         fetchNewsSentiment(symbol, alphaVantageKey),
       ]);
 
-      rsiData = results[0].status === "fulfilled" ? results[0].value : null;
-      macdData = results[1].status === "fulfilled" ? results[1].value : null;
-      overview = results[2].status === "fulfilled" ? results[2].value : null;
-      newsSentiment = results[3].status === "fulfilled" ? results[3].value : null;
+      profile = results[0].status === "fulfilled" ? results[0].value : null;
+      if (results[0].status === "rejected") {
+        console.error("Failed to fetch company profile:", results[0].reason);
+      }
+      newsSentiment = results[1].status === "fulfilled" ? results[1].value : null;
     }
 
+    const [earnings, technicals] = await Promise.all([earningsRequest, technicalsRequest]);
+
     const today = new Date().toLocaleDateString('en-US', {
       weekday: 'long',
       year: 'numeric',
@@ -359,29 +457,24 @@ export async function POST(request: NextRequest) {
       day: 'numeric'
     });
 
-    // Build enhanced prompt with Alpha Vantage data
+    // Build enhanced prompt with indicator and Alpha Vantage data
+    const technicalLines = technicals ? formatTechnicalsForPrompt(technicals) : "";
     let technicalSection = "";
-    if (rsiData || macdData) {
-      technicalSection = "\n\n=== TECHNICAL INDICATORS (Real-time from Alpha Vantage) ===";
-      if (rsiData) {
-        technicalSection += `\nRSI (14-day): ${rsiData.value.toFixed(2)} (${rsiData.signal})`;
-      }
-      if (macdData) {
-        technicalSection += `\nMACD: ${macdData.macd.toFixed(4)}, Signal: ${macdData.signal.toFixed(4)}, Histogram: ${macdData.histogram.toFixed(4)} (${macdData.trend})`;
-      }
+    if (technicalLines) {
+      technicalSection = `\n\n=== TECHNICAL INDICATORS (computed from daily candles) ===\n${technicalLines}`;
+    }
+    if (technicals?.levels) {
+      technicalSection += `\n\n=== KEY PRICE LEVELS (from daily candles) ===\n${formatLevelsForPrompt(technicals.levels, currency)}`;
     }
 
     let fundamentalsSection = "";
-    if (overview) {
-      fundamentalsSection = `\n\n=== FUNDAMENTALS ===
-Market Cap: ${overview.marketCap}
-P/E Ratio: ${overview.peRatio}
-EPS: $${overview.eps}
-52-Week High: $${overview.fiftyTwoWeekHigh}
-52-Week Low: $${overview.fiftyTwoWeekLow}
-Dividend Yield: ${overview.dividendYield}
-Sector: ${overview.sector}
-Industry: ${overview.industry}`;
+    if (profile) {
+      fundamentalsSection = `\n\n=== FUNDAMENTALS ===\n${formatProfileForPrompt(profile, profile.currency ?? currency)}`;
+    }
+
+    let earningsSection = "";
+    if (earnings && (earnings.next || earnings.history.length > 0)) {
+      earningsSection = `\n\n=== EARNINGS ===\n${formatEarningsForPrompt(earnings, profile?.currency ?? currency)}`;
     }
 
     let newsSection = "";
@@ -398,7 +491,7 @@ Industry: ${overview.industry}`;
 
     const systemPrompt = `You are an expert financial analyst and market predictor with access to REAL-TIME market data. Today is ${today}.
 
-IMPORTANT: You are provided with REAL technical indicators, fundamentals, and news sentiment from Alpha Vantage. Use this DATA-DRIVEN analysis:
+IMPORTANT: You are provided with REAL technical indicators computed from daily price history, plus fundamentals and news sentiment from Alpha Vantage. Use this DATA-DRIVEN analysis:
 
 1. RSI: >70 = overbought (potential reversal down), <30 = oversold (potential reversal up)
 2. MACD: Positive histogram + MACD above signal = bullish momentum
@@ -430,9 +523,10 @@ Analyze using the PROVIDED DATA to give actionable investment predictions. Respo
 Rules:
 - score: 8-10 = Strong Buy, 5-7 = Hold, 1-4 = Caution
 - Use RSI/MACD signals to determine entry timing
-- Reference the actual technical indicator values in your reasons
+- Reference the actual technical indicator values in your reasons, and how they have moved over recent sessions
 - Consider news sentiment when assessing short-term momentum
-- Be specific with price targets based on technical levels
+- If an earnings report is due within the timeframe, name the date and treat it as event risk
+- Be specific with price targets based on the KEY PRICE LEVELS provided: entries near support, targets and exits near resistance
 
 IMPORTANT: Return ONLY the JSON object, no markdown, no code blocks.`;
 
@@ -441,67 +535,88 @@ IMPORTANT: Return ONLY the JSON object, no markdown, no code blocks.`;
 Analyze this stock using the provided real-time data:
 
 Stock: ${symbol} (${stockData.name})
-Current Price: $${stockData.currentPrice.toFixed(2)}
-Daily Change: ${stockData.change >= 0 ? "+" : ""}$${stockData.change.toFixed(2)} (${stockData.changePercent >= 0 ? "+" : ""}${stockData.changePercent.toFixed(2)}%)
-Day High: $${stockData.dayHigh.toFixed(2)}
-Day Low: $${stockData.dayLow.toFixed(2)}
+Asset Type: ${assetType}
+Quote Currency: ${currency}
+Current Price: ${formatMoney(stockData.currentPrice, currency)}
+Daily Change: ${stockData.change >= 0 ? "+" : ""}${formatMoney(stockData.change, currency)} (${stockData.changePercent >= 0 ? "+" : ""}${stockData.changePercent.toFixed(2)}%)
+Day High: ${formatMoney(stockData.dayHigh, currency)}
+Day Low: ${formatMoney(stockData.dayLow, currency)}
 Volume: ${formatVolume(stockData.volume)}
-5-Day Sharpe Ratio: ${stockData.sharpeRatio.toFixed(2)}
-Current Trend: ${stockData.trend.charAt(0).toUpperCase() + stockData.trend.slice(1)}${technicalSection}${fundamentalsSection}${newsSection}
+Sharpe Ratio (${stockData.range || "5d"} range): ${stockData.sharpeRatio.toFixed(2)}
+Current Trend: ${stockData.trend.charAt(0).toUpperCase() + stockData.trend.slice(1)}${technicalSection}${fundamentalsSection}${earningsSection}${newsSection}
 
 Provide your JSON analysis:`;
 
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${openRouterKey}`,
-        "HTTP-Referer": process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
-        "X-Title": "stocky-ahh - Stock Trend Analyzer",
-      },
-      body: JSON.stringify({
-        model: selectedModel,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        max_tokens: 800,
-        temperature: 0.7,
-      }),
-    });
+    // Identical analyses requested at the same time share one completion
+    const completion = await singleFlight(
+      flightKey("openrouter", symbol, { model: selectedModel, range: stockData.range || "5d" }),
+      async () => {
+        const response = await upstreamFetch(OPENROUTER_API_URL, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${openRouterKey}`,
+            "HTTP-Referer": process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
+            "X-Title": "stocky-ahh - Stock Trend Analyzer",
+          },
+          body: JSON.stringify({
+            model: selectedModel,
+            messages: [
+              { role: "system", content: systemPrompt },
+              { role: "user", content: userPrompt },
+            ],
+            max_tokens: 800,
+            temperature: 0.7,
+          }),
+        }, {
+          // The prompt embeds today's date, so key replays on what was asked instead
+          fixtureKey: `openrouter ${selectedModel} ${symbol}`,
+        });
+
+        return {
+          ok: response.ok,
+          status: response.status,
+          body: await response.json().catch(() => ({})),
+        };
+      }
+    );
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
+    if (!completion.ok) {
+      const errorData = completion.body;
       console.error("OpenRouter API error:", errorData);
 
-      if (response.status === 403) {
-        const errorMessage = errorData?.error?.message || "";
+      if (completion.status === 403) {
+        const errorMessage = parseCompletion(errorData)?.error?.message || "";
         if (errorMessage.includes("limit exceeded")) {
-          return NextResponse.json(
-            { error: "Rate limit exceeded", message: "AI API daily limit reached. Please try again tomorrow or upgrade your API plan." },
-            { status: 429 }
+          // Daily limits reset at midnight UTC
+          const midnight = new Date();
+          midnight.setUTCHours(24, 0, 0, 0);
+          return apiError(
+            "UPSTREAM_RATE_LIMITED",
+            "AI API daily limit reached. Please try again tomorrow or upgrade your API plan.",
+            { retryAfter: Math.ceil((midnight.getTime() - Date.now()) / 1000) }
           );
         }
-        return NextResponse.json(
-          { error: "Access denied", message: "AI API access denied. Please check your API key configuration." },
-          { status: 403 }
-        );
+        return apiError("CONFIG_MISSING", "AI API access denied. Please check your API key configuration.");
+      }
+      if (completion.status === 401) {
+        return apiError("CONFIG_MISSING", "AI API key was rejected. Please check your API key configuration.");
+      }
+      if (completion.status === 429) {
+        return apiError("UPSTREAM_RATE_LIMITED", "AI API rate limit reached. Please try again shortly.");
       }
 
-      return NextResponse.json(
-        { error: "AI service error", message: "Failed to get AI analysis. Please try again later." },
-        { status: response.status }
-      );
+      return apiError("UPSTREAM_ERROR", "Failed to get AI analysis. Please try again later.");
     }
 
-    const data = await response.json();
+    const data = parseCompletion(completion.body);
+    if (!data) {
+      return apiError("UPSTREAM_ERROR", "AI returned an unexpected response");
+    }
     const aiResponse = data.choices?.[0]?.message?.content;
 
     if (!aiResponse) {
-      return NextResponse.json(
-        { error: "Empty response", message: "AI returned no analysis" },
-        { status: 500 }
-      );
+      return apiError("UPSTREAM_ERROR", "AI returned no analysis");
     }
 
     let parsedAnalysis;
@@ -553,15 +668,16 @@ Provide your JSON analysis:`;
         },
         riskFactors: [
           "Monitor price volatility and volume",
-          "Watch for upcoming earnings reports",
+          earnings?.next
+            ? `Earnings report due ${formatCalendarDate(earnings.next.date)}`
+            : "Watch for upcoming earnings reports",
           "Track overall market conditions"
         ],
       };
     }
 
-    analysisCache.set(symbol, {
+    await analysisCache.set(cacheKey, {
       analysis: parsedAnalysis,
-      timestamp: Date.now(),
       stockPrice: stockData.currentPrice,
     });
 
@@ -571,17 +687,16 @@ Provide your JSON analysis:`;
       usage: data.usage,
       cached: false,
       enhancedData: {
-        hasRSI: !!rsiData,
-        hasMACD: !!macdData,
-        hasFundamentals: !!overview,
+        hasRSI: technicals !== null && valueAgo(technicals.rsi, 0) !== null,
+        hasMACD: technicals !== null && valueAgo(technicals.macd.histogram, 0) !== null,
+        hasLevels: !!technicals?.levels,
+        hasFundamentals: !!profile,
+        hasEarnings: !!earnings,
         hasNews: !!newsSentiment,
       },
     });
   } catch (error) {
     console.error("AI API error:", error);
-    return NextResponse.json(
-      { error: "Server error", message: "Failed to process AI request" },
-      { status: 500 }
-    );
+    return apiError("INTERNAL_ERROR", "Failed to process AI request");
   }
 }
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getCacheStats } from "@/lib/cache";
+
+export async function GET() {
+  return NextResponse.json({
+    caches: getCacheStats(),
+    generatedAt: new Date().toISOString(),
+  });
+}
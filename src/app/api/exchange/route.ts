@@ -1,25 +1,58 @@
 import { NextRequest, NextResponse } from "next/server";
-import { validateExchangeResponse } from "@/lib/validation";
+import { validateCurrencyCode } from "@/lib/validation";
+import { upstreamFetch } from "@/lib/upstream";
+import { createCache } from "@/lib/cache";
+import { number, object, optional, parse, record, SchemaError } from "@/lib/schema";
+import { apiError } from "@/lib/errors";
 import type { ExchangeRate } from "@/lib/types";
 
-// Cache the exchange rate (in production, use Redis)
-let cachedRate: ExchangeRate | null = null;
-let cacheTime: number = 0;
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+// Cache the exchange rate for 5 minutes
+const exchangeCache = createCache<ExchangeRate>({
+  namespace: "exchange",
+  ttlMs: 5 * 60 * 1000,
+  maxEntries: 50,
+});
+
+// Rates are quoted per USD
+const ratesSchema = object({
+  rates: record(number),
+  time_last_updated: optional(number),
+});
 
 // Fallback rate if API fails
 const FALLBACK_RATE = 33.5;
 
+// Only the USD rate has a sensible hard-coded fallback
+function fallbackResponse(base: string) {
+  if (base !== "USD") {
+    return apiError("UPSTREAM_UNAVAILABLE", `No ${base} to THB rate available right now`);
+  }
+
+  const fallbackData: ExchangeRate = {
+    base,
+    rate: FALLBACK_RATE,
+    lastUpdated: new Date().toISOString(),
+  };
+  return NextResponse.json(fallbackData);
+}
+
 export async function GET(request: NextRequest) {
+  // Converts USD by default; ?from=JPY etc. gives cross rates for foreign listings
+  const base = validateCurrencyCode(request.nextUrl.searchParams.get("from") ?? "USD");
+  if (!base) {
+    return apiError("INVALID_PARAMETER", "from must be a 3-letter currency code");
+  }
+
   try {
     // Check cache
-    const now = Date.now();
-    if (cachedRate && now - cacheTime < CACHE_DURATION) {
-      return NextResponse.json(cachedRate);
+    const cacheKey = `${base}:THB`;
+    const cached = await exchangeCache.getFresh(cacheKey);
+    if (cached) {
+      return NextResponse.json(cached.value);
     }
 
     // Fetch from Exchange Rate API
-    const response = await fetch("https://api.exchangerate-api.com/v4/latest/USD", {
+    const response = await upstreamFetch("https://api.exchangerate-api.com/v4/latest/USD", {
       headers: {
         "User-Agent": "Mozilla/5.0 (compatible; Stockify/1.0)",
       },
@@ -28,45 +61,46 @@ export async function GET(request: NextRequest) {
 
     if (!response.ok) {
       console.log(`Exchange API returned ${response.status}, using fallback`);
-      const fallbackData: ExchangeRate = {
-        rate: FALLBACK_RATE,
-        lastUpdated: new Date().toISOString(),
-      };
-      return NextResponse.json(fallbackData);
+      return fallbackResponse(base);
     }
 
-    const data = await response.json();
+    let data;
+    try {
+      data = parse(ratesSchema, await response.json());
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      console.error(`Schema drift in exchange rates payload at ${error.path}: expected ${error.expected}, got ${error.received}`);
+      return fallbackResponse(base);
+    }
 
-    // Validate response
-    if (!validateExchangeResponse(data)) {
-      console.log("Invalid exchange response, using fallback");
-      const fallbackData: ExchangeRate = {
-        rate: FALLBACK_RATE,
-        lastUpdated: new Date().toISOString(),
-      };
-      return NextResponse.json(fallbackData);
+    if (!(data.rates.THB > 0)) {
+      console.log("Exchange response has no THB rate, using fallback");
+      return fallbackResponse(base);
+    }
+
+    // Rates are quoted per USD, so cross through it
+    const baseRate = data.rates[base];
+    if (!(baseRate > 0)) {
+      return apiError("NOT_FOUND", `No exchange rate available for ${base}`);
     }
 
     const exchangeData: ExchangeRate = {
-      rate: Math.round(data.rates.THB * 10000) / 10000,
+      base,
+      // Six significant digits keeps small cross rates (KRW, JPY) meaningful
+      rate: Number((data.rates.THB / baseRate).toPrecision(6)),
       lastUpdated: data.time_last_updated
         ? new Date(data.time_last_updated * 1000).toISOString()
         : new Date().toISOString(),
     };
 
     // Update cache
-    cachedRate = exchangeData;
-    cacheTime = now;
+    await exchangeCache.set(cacheKey, exchangeData);
 
     return NextResponse.json(exchangeData);
   } catch (error) {
     console.error("Exchange API error:", error);
 
     // Return fallback on error
-    const fallbackData: ExchangeRate = {
-      rate: FALLBACK_RATE,
-      lastUpdated: new Date().toISOString(),
-    };
-    return NextResponse.json(fallbackData);
+    return fallbackResponse(base);
   }
 }
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getCircuitStats } from "@/lib/circuit-breaker";
+
+export async function GET() {
+  return NextResponse.json({
+    providers: getCircuitStats(),
+    generatedAt: new Date().toISOString(),
+  });
+}
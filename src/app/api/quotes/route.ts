@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateSymbol, SYMBOL_FORMAT_MESSAGE } from "@/lib/validation";
+import { buildIndexSnapshot, getMarketDataProvider, isUpstreamFailure, ProviderError } from "@/lib/providers";
+import { createCache } from "@/lib/cache";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { apiError, toApiError, rateLimitExceeded, providerErrorCode } from "@/lib/errors";
+import type { ApiErrorCode, BatchQuotes, MarketIndex, QuoteError } from "@/lib/types";
+
+const MAX_SYMBOLS = 50;
+// Upstream calls in flight at once for a single batch
+const CONCURRENCY = 8;
+
+// Per-symbol failures that mean the upstream, not the symbol, is the problem
+const UPSTREAM_CODES = new Set<ApiErrorCode>(["UPSTREAM_UNAVAILABLE", "UPSTREAM_RATE_LIMITED", "UPSTREAM_ERROR", "CONFIG_MISSING"]);
+
+// Per-symbol cache so overlapping batches (watchlist, history) share quotes
+const quotesCache = createCache<MarketIndex>({
+  namespace: "quotes",
+  ttlMs: 60000,
+  staleMs: 2 * 60000,
+  maxEntries: 500,
+});
+
+async function loadQuote(symbol: string): Promise<MarketIndex> {
+  const { value } = await quotesCache.getOrLoad(symbol, async () => {
+    const provider = getMarketDataProvider();
+    const quote = await provider.getQuote(symbol);
+    if (quote.price === null) {
+      throw new ProviderError(provider.name, `No price available for ${symbol}`, 404);
+    }
+    return buildIndexSnapshot(quote, quote.name);
+  });
+  return value;
+}
+
+function toQuoteError(symbol: string, error: unknown): QuoteError {
+  if (!(error instanceof ProviderError) && !isUpstreamFailure(error)) {
+    return { symbol, ...toApiError("INTERNAL_ERROR", "Quote failed on our side") };
+  }
+  const code = error instanceof ProviderError ? providerErrorCode(error) : "UPSTREAM_UNAVAILABLE";
+  if (code === "NOT_FOUND") {
+    return { symbol, ...toApiError(code, `Unable to find quote data for "${symbol}"`) };
+  }
+  if (code === "UPSTREAM_RATE_LIMITED") {
+    return { symbol, ...toApiError(code, "Upstream rate limit reached, try again shortly") };
+  }
+  return { symbol, ...toApiError(code, "Quote temporarily unavailable") };
+}
+
+// Status for a batch where every symbol failed
+function batchStatus(errors: QuoteError[]): number {
+  if (errors.some((error) => UPSTREAM_CODES.has(error.code))) return 503;
+  if (errors.some((error) => error.code === "INTERNAL_ERROR")) return 500;
+  return 200;
+}
+
+/**
+ * Runs the loader over every symbol with at most CONCURRENCY calls pending, keeping input order
+ */
+async function loadAll(symbols: string[]): Promise<PromiseSettledResult<MarketIndex>[]> {
+  const results: PromiseSettledResult<MarketIndex>[] = new Array(symbols.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < symbols.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await loadQuote(symbols[index]) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, symbols.length) }, worker));
+  return results;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // One batch counts as one request against the rate limit
+    const ip = getClientIp(request);
+    if (!checkRateLimit(ip)) {
+      return rateLimitExceeded(ip);
+    }
+
+    const rawSymbols = (request.nextUrl.searchParams.get("symbols") ?? "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+    if (rawSymbols.length === 0) {
+      return apiError("INVALID_PARAMETER", "Pass a comma-separated list, e.g. ?symbols=AAPL,MSFT");
+    }
+
+    const errors: QuoteError[] = [];
+    const symbols: string[] = [];
+    for (const raw of rawSymbols) {
+      const symbol = validateSymbol(raw);
+      if (!symbol) {
+        errors.push({ symbol: raw, ...toApiError("INVALID_SYMBOL", SYMBOL_FORMAT_MESSAGE) });
+      } else if (!symbols.includes(symbol)) {
+        symbols.push(symbol);
+      }
+    }
+
+    if (symbols.length === 0) {
+      return apiError("INVALID_SYMBOL", "None of the requested symbols are valid", { details: { errors } });
+    }
+
+    if (symbols.length > MAX_SYMBOLS) {
+      return apiError("INVALID_PARAMETER", `Request at most ${MAX_SYMBOLS} symbols at a time`);
+    }
+
+    const quotes: MarketIndex[] = [];
+    const results = await loadAll(symbols);
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        quotes.push(result.value);
+      } else {
+        console.log(`Quote failed for ${symbols[i]}:`, result.reason instanceof Error ? result.reason.message : result.reason);
+        errors.push(toQuoteError(symbols[i], result.reason));
+      }
+    });
+
+    const body: BatchQuotes = {
+      quotes,
+      errors,
+      lastUpdated: new Date().toISOString(),
+    };
+
+    // Partial failures are reported per symbol. An empty result is only an outage when the upstream
+    // failed; unknown or malformed symbols alone are a normal answer, so monitors don't retry them
+    return NextResponse.json(body, { status: quotes.length > 0 ? 200 : batchStatus(errors) });
+  } catch (error) {
+    console.error("Quotes API error:", error);
+    return apiError("INTERNAL_ERROR", "Failed to fetch quotes. Please try again later.");
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateSearchQuery, validateSymbol } from "@/lib/validation";
+import { getMarketDataProvider } from "@/lib/providers";
+import { searchBundledSymbols } from "@/lib/symbols";
+import { createCache } from "@/lib/cache";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { apiError, rateLimitExceeded } from "@/lib/errors";
+import type { SymbolMatch, SymbolSearchResults } from "@/lib/types";
+
+const MAX_RESULTS = 10;
+
+// Listings barely change, so keep provider results for an hour
+const searchCache = createCache<SymbolMatch[]>({
+  namespace: "search",
+  ttlMs: 60 * 60 * 1000,
+  maxEntries: 1000,
+});
+
+/**
+ * Provider matches first, topped up from the bundled list.
+ * Symbols the stock endpoint would reject are dropped so every suggestion can be opened.
+ */
+function mergeResults(providerResults: SymbolMatch[], bundledResults: SymbolMatch[]): SymbolMatch[] {
+  const merged: SymbolMatch[] = [];
+  const seen = new Set<string>();
+
+  for (const match of [...providerResults, ...bundledResults]) {
+    const symbol = match.symbol.toUpperCase();
+    if (seen.has(symbol) || validateSymbol(symbol) !== symbol) continue;
+    seen.add(symbol);
+    merged.push({ ...match, symbol });
+    if (merged.length === MAX_RESULTS) break;
+  }
+
+  return merged;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Cache misses go to the provider's search, so typing counts against the same budget
+    const ip = getClientIp(request);
+    if (!checkRateLimit(ip)) {
+      return rateLimitExceeded(ip);
+    }
+
+    const query = validateSearchQuery(request.nextUrl.searchParams.get("q"));
+    if (!query) {
+      return apiError("INVALID_PARAMETER", "Search text must be 1-40 characters");
+    }
+
+    const cacheKey = query.toLowerCase();
+    let providerResults: SymbolMatch[] = [];
+    try {
+      const { value } = await searchCache.getOrLoad(cacheKey, () => getMarketDataProvider().searchSymbols(query));
+      providerResults = value;
+    } catch (error) {
+      // Offline or provider down: the bundled list still answers
+      console.log("Symbol search provider failed:", error instanceof Error ? error.message : error);
+    }
+
+    const body: SymbolSearchResults = {
+      query,
+      results: mergeResults(providerResults, searchBundledSymbols(query, MAX_RESULTS)),
+    };
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error("Search API error:", error);
+    return apiError("INTERNAL_ERROR", "Failed to search symbols. Please try again later.");
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateSymbol, decodeSymbolParam, SYMBOL_FORMAT_MESSAGE } from "@/lib/validation";
+import { getEarnings } from "@/lib/earnings";
+import { isUpstreamFailure, ProviderError } from "@/lib/providers";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { apiError, rateLimitExceeded, providerErrorResponse, upstreamUnavailable } from "@/lib/errors";
+import { classifySymbol, hasFundamentals } from "@/lib/assets";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const ip = getClientIp(request);
+    if (!checkRateLimit(ip)) {
+      return rateLimitExceeded(ip);
+    }
+
+    const { symbol: rawSymbol } = await params;
+    const symbol = validateSymbol(decodeSymbolParam(rawSymbol));
+
+    if (!symbol) {
+      return apiError("INVALID_SYMBOL", SYMBOL_FORMAT_MESSAGE);
+    }
+
+    // Only companies report earnings
+    if (!hasFundamentals(classifySymbol(symbol))) {
+      return apiError("UNSUPPORTED_ASSET", `No earnings reports for "${symbol}"`);
+    }
+
+    try {
+      return NextResponse.json(await getEarnings(symbol));
+    } catch (error) {
+      // Network errors and timeouts land here too; they mean the same thing as a 5xx
+      if (!(error instanceof ProviderError) && !isUpstreamFailure(error)) throw error;
+      console.log(error instanceof Error ? error.message : error);
+      if (!(error instanceof ProviderError)) return upstreamUnavailable();
+      return providerErrorResponse(error, `No earnings reports for "${symbol}"`);
+    }
+  } catch (error) {
+    console.error("Earnings API error:", error);
+    return apiError("INTERNAL_ERROR", "Failed to fetch earnings. Please try again later.");
+  }
+}
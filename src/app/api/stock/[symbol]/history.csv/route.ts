@@ -0,0 +1,9 @@
+import { NextRequest } from "next/server";
+import { exportHistory } from "@/lib/history-export";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  return exportHistory(request, params, "csv");
+}
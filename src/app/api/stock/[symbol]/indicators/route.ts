@@ -1,60 +1,74 @@
 import { NextRequest, NextResponse } from "next/server";
-import { validateSymbol } from "@/lib/validation";
+import { validateSymbol, decodeSymbolParam, SYMBOL_FORMAT_MESSAGE, parseBooleanParam } from "@/lib/validation";
+import { adjustBars, getMarketDataProvider, isUpstreamFailure, ProviderError, type PriceBar } from "@/lib/providers";
+import { createCache } from "@/lib/cache";
+import { apiError, providerErrorResponse, upstreamUnavailable } from "@/lib/errors";
+import {
+  computeIndicators,
+  getRSISignal,
+  parseIndicatorSet,
+  parseRSIPeriod,
+  requiredCandles,
+  rsi,
+  type IndicatorSpec,
+} from "@/lib/indicators";
+import { computePriceLevels } from "@/lib/levels";
+import { detectCandlePatterns } from "@/lib/patterns";
+import { findRSIDivergences } from "@/lib/divergence";
+import type { HistoryInterval, HistoryRange, RSIReading, RSITimeframe, TechnicalIndicators } from "@/lib/types";
 
 // Cache for 5 minutes
-const indicatorsCache = new Map<string, { data: TechnicalIndicators; timestamp: number }>();
-const CACHE_DURATION_MS = 5 * 60 * 1000;
-
-interface TechnicalIndicators {
-  rsi: {
-    value: number;
-    signal: "Overbought" | "Bullish" | "Neutral" | "Bearish" | "Oversold";
-  } | null;
+const indicatorsCache = createCache<TechnicalIndicators>({
+  namespace: "indicators",
+  ttlMs: 5 * 60 * 1000,
+  maxEntries: 500,
+});
+
+// The top-level rsi field, kept for clients that predate ?set=
+const RSI_PERIOD = 14;
+
+// Roughly how many daily candles each range holds
+const HISTORY_WINDOWS: Array<{ range: HistoryRange; candles: number }> = [
+  { range: "6mo", candles: 120 },
+  { range: "1y", candles: 250 },
+  { range: "5y", candles: 1250 },
+];
+
+// ?patterns=true reports patterns completed in this many latest daily candles
+const PATTERN_LOOKBACK = 60;
+
+// ?divergences=true reports divergences whose later swing is within this many daily candles
+const DIVERGENCE_LOOKBACK = 250;
+
+// ?timeframes=true fetches these on top of the daily candles
+const LONGER_TIMEFRAMES: Array<{ timeframe: RSITimeframe; range: HistoryRange; interval: HistoryInterval }> = [
+  { timeframe: "weekly", range: "5y", interval: "1wk" },
+  { timeframe: "monthly", range: "max", interval: "1mo" },
+];
+
+// Smoothed indicators (EMA, Wilder) need a few lookbacks of history before they settle
+const WARM_UP_FACTOR = 3;
+
+function historyRangeFor(specs: IndicatorSpec[], rsiPeriod: number): HistoryRange {
+  const needed = Math.max(Math.max(RSI_PERIOD, rsiPeriod) + 1, ...specs.map(requiredCandles)) * WARM_UP_FACTOR;
+  const match = HISTORY_WINDOWS.find((candidate) => candidate.candles >= needed);
+  return (match ?? HISTORY_WINDOWS[HISTORY_WINDOWS.length - 1]).range;
 }
 
-// Calculate RSI from price data
-function calculateRSI(closePrices: number[], period: number = 14): number | null {
-  if (closePrices.length < period + 1) {
-    return null;
-  }
-
-  // Calculate price changes
-  const changes: number[] = [];
-  for (let i = 1; i < closePrices.length; i++) {
-    changes.push(closePrices[i] - closePrices[i - 1]);
-  }
-
-  // Separate gains and losses
-  const gains = changes.map(c => c > 0 ? c : 0);
-  const losses = changes.map(c => c < 0 ? Math.abs(c) : 0);
-
-  // Calculate initial average gain and loss (SMA)
-  let avgGain = gains.slice(0, period).reduce((a, b) => a + b, 0) / period;
-  let avgLoss = losses.slice(0, period).reduce((a, b) => a + b, 0) / period;
-
-  // Use Wilder's smoothing method for subsequent values
-  for (let i = period; i < changes.length; i++) {
-    avgGain = (avgGain * (period - 1) + gains[i]) / period;
-    avgLoss = (avgLoss * (period - 1) + losses[i]) / period;
-  }
-
-  // Calculate RS and RSI
-  if (avgLoss === 0) {
-    return 100; // No losses means RSI is 100
-  }
-
-  const rs = avgGain / avgLoss;
-  const rsi = 100 - (100 / (1 + rs));
-
-  return Math.round(rsi * 100) / 100; // Round to 2 decimal places
+function toTimestamp(bar: PriceBar): string {
+  return new Date(bar.timestamp * 1000).toISOString();
 }
 
-function getRSISignal(rsi: number): "Overbought" | "Bullish" | "Neutral" | "Bearish" | "Oversold" {
-  if (rsi >= 70) return "Overbought";
-  if (rsi >= 60) return "Bullish";
-  if (rsi <= 30) return "Oversold";
-  if (rsi <= 40) return "Bearish";
-  return "Neutral";
+function rsiReading(timeframe: RSITimeframe, bars: PriceBar[], period: number): RSIReading {
+  const series = rsi(bars.map((bar) => bar.close), period);
+  const value = series.length > 0 ? series[series.length - 1] : null;
+  return {
+    timeframe,
+    period,
+    value: value !== null ? Math.round(value * 100) / 100 : null,
+    signal: value !== null ? getRSISignal(value) : null,
+    asOf: bars.length > 0 ? toTimestamp(bars[bars.length - 1]) : null,
+  };
 }
 
 export async function GET(
@@ -63,72 +77,135 @@ export async function GET(
 ) {
   try {
     const { symbol: rawSymbol } = await params;
-    const symbol = validateSymbol(rawSymbol);
+    const symbol = validateSymbol(decodeSymbolParam(rawSymbol));
 
     if (!symbol) {
-      return NextResponse.json(
-        { error: "Invalid symbol", message: "Stock symbol must be 1-10 alphanumeric characters" },
-        { status: 400 }
-      );
+      return apiError("INVALID_SYMBOL", SYMBOL_FORMAT_MESSAGE);
     }
 
-    // Check cache
-    const cached = indicatorsCache.get(symbol);
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION_MS) {
-      return NextResponse.json({ ...cached.data, cached: true });
+    // Computed on adjusted closes unless ?adjusted=false
+    const adjusted = parseBooleanParam(request.nextUrl.searchParams.get("adjusted"), true);
+    if (adjusted === null) {
+      return apiError("INVALID_PARAMETER", "adjusted must be true or false");
     }
 
-    // Fetch price data from Yahoo Finance (need at least 20 days for 14-day RSI)
-    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?interval=1d&range=1mo`;
-
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; stocky-ahh/1.0)",
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`Yahoo Finance API returned ${response.status} for symbol: ${symbol}`);
-      return NextResponse.json(
-        { error: "Failed to fetch data", message: "Unable to fetch price data for RSI calculation" },
-        { status: response.status }
-      );
+    // ?set=sma:50,macd,bbands:20:2; RSI(14) alone by default
+    const set = parseIndicatorSet(request.nextUrl.searchParams.get("set"));
+    if (set.error !== undefined) {
+      return apiError("INVALID_PARAMETER", set.message);
     }
+    const { specs } = set;
 
-    const data = await response.json();
+    // ?series=true adds every line's value at every candle, for plotting
+    const withSeries = parseBooleanParam(request.nextUrl.searchParams.get("series"), false);
+    if (withSeries === null) {
+      return apiError("INVALID_PARAMETER", "series must be true or false");
+    }
+
+    // ?levels=true adds support/resistance: swing clusters, pivot points and open gaps
+    const withLevels = parseBooleanParam(request.nextUrl.searchParams.get("levels"), false);
+    if (withLevels === null) {
+      return apiError("INVALID_PARAMETER", "levels must be true or false");
+    }
+
+    // ?patterns=true adds candlestick patterns (doji, engulfing, morning star, ...)
+    const withPatterns = parseBooleanParam(request.nextUrl.searchParams.get("patterns"), false);
+    if (withPatterns === null) {
+      return apiError("INVALID_PARAMETER", "patterns must be true or false");
+    }
+
+    // ?rsiPeriod=21 sets the RSI period for timeframes and divergences; the top-level rsi stays RSI(14)
+    const rsiPeriod = parseRSIPeriod(request.nextUrl.searchParams.get("rsiPeriod"));
+    if (rsiPeriod === null) {
+      return apiError("INVALID_PARAMETER", "rsiPeriod must be a whole number from 2 to 200");
+    }
+
+    // ?timeframes=true adds RSI on daily, weekly and monthly candles side by side
+    const withTimeframes = parseBooleanParam(request.nextUrl.searchParams.get("timeframes"), false);
+    if (withTimeframes === null) {
+      return apiError("INVALID_PARAMETER", "timeframes must be true or false");
+    }
 
-    if (!data.chart?.result?.[0]?.indicators?.quote?.[0]?.close) {
-      return NextResponse.json({ rsi: null, cached: false });
+    // ?divergences=true adds bullish and bearish divergences between price and RSI swings
+    const withDivergences = parseBooleanParam(request.nextUrl.searchParams.get("divergences"), false);
+    if (withDivergences === null) {
+      return apiError("INVALID_PARAMETER", "divergences must be true or false");
     }
 
-    // Get closing prices (filter out null values)
-    const closePrices: number[] = data.chart.result[0].indicators.quote[0].close
-      .filter((price: number | null) => price !== null);
+    const cacheKey = [
+      symbol,
+      adjusted ? "adjusted" : "raw",
+      specs.map((spec) => spec.key).join(","),
+      withSeries ? "series" : "latest",
+      withLevels ? "levels" : "",
+      withPatterns ? "patterns" : "",
+      `rsi${rsiPeriod}`,
+      withTimeframes ? "timeframes" : "",
+      withDivergences ? "divergences" : "",
+    ].join(":");
+
+    // Check cache
+    const cached = await indicatorsCache.getFresh(cacheKey);
+    if (cached) {
+      return NextResponse.json({ ...cached.value, cached: true });
+    }
 
-    if (closePrices.length < 15) {
-      console.log("Not enough price data for RSI calculation");
-      return NextResponse.json({ rsi: null, cached: false });
+    // Daily candles, enough of them for the longest lookback requested, plus weekly and monthly when asked
+    let bars: PriceBar[];
+    let longerBars: PriceBar[][];
+    try {
+      const provider = getMarketDataProvider();
+      const [history, ...longer] = await Promise.all([
+        provider.getHistory(symbol, { range: historyRangeFor(specs, rsiPeriod), interval: "1d" }),
+        ...(withTimeframes
+          ? LONGER_TIMEFRAMES.map(({ range, interval }) => provider.getHistory(symbol, { range, interval }))
+          : []),
+      ]);
+      bars = adjusted ? adjustBars(history.bars) : history.bars;
+      longerBars = longer.map((result) => (adjusted ? adjustBars(result.bars) : result.bars));
+    } catch (error) {
+      // Network errors and timeouts land here too; they mean the same thing as a 5xx
+      if (!(error instanceof ProviderError) && !isUpstreamFailure(error)) throw error;
+      console.error(error instanceof Error ? error.message : error);
+      if (!(error instanceof ProviderError)) return upstreamUnavailable();
+      return providerErrorResponse(error, `Unable to find price data for "${symbol}"`);
     }
 
-    // Calculate RSI
-    const rsiValue = calculateRSI(closePrices);
+    const timestamps = bars.map(toTimestamp);
+    const rsiSeries = rsi(bars.map((bar) => bar.close), RSI_PERIOD);
+    const rsiValue = rsiSeries.length > 0 ? rsiSeries[rsiSeries.length - 1] : null;
 
     const indicators: TechnicalIndicators = {
+      adjusted,
       rsi: rsiValue !== null ? {
-        value: rsiValue,
+        value: Math.round(rsiValue * 100) / 100,
         signal: getRSISignal(rsiValue),
       } : null,
+      indicators: computeIndicators(specs, bars, withSeries ? timestamps : undefined),
+      asOf: timestamps[timestamps.length - 1] ?? null,
+      ...(withLevels && { levels: computePriceLevels(bars, timestamps) }),
+      ...(withPatterns && {
+        patterns: detectCandlePatterns(bars.map((bar, i) => ({ ...bar, timestamp: timestamps[i] })))
+          .filter((pattern) => pattern.index >= bars.length - PATTERN_LOOKBACK),
+      }),
+      ...(withTimeframes && {
+        timeframes: [
+          rsiReading("daily", bars, rsiPeriod),
+          ...LONGER_TIMEFRAMES.map(({ timeframe }, i) => rsiReading(timeframe, longerBars[i], rsiPeriod)),
+        ],
+      }),
+      ...(withDivergences && {
+        divergences: findRSIDivergences(bars, timestamps, rsi(bars.map((bar) => bar.close), rsiPeriod))
+          .filter((divergence) => divergence.end.index >= bars.length - DIVERGENCE_LOOKBACK),
+      }),
     };
 
     // Cache the results
-    indicatorsCache.set(symbol, { data: indicators, timestamp: Date.now() });
+    await indicatorsCache.set(cacheKey, indicators);
 
     return NextResponse.json({ ...indicators, cached: false });
   } catch (error) {
     console.error("Indicators API error:", error);
-    return NextResponse.json(
-      { error: "Server error", message: "Failed to calculate technical indicators" },
-      { status: 500 }
-    );
+    return apiError("INTERNAL_ERROR", "Failed to calculate technical indicators");
   }
 }
@@ -1,9 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { validateSymbol } from "@/lib/validation";
+import { validateSymbol, decodeSymbolParam, SYMBOL_FORMAT_MESSAGE } from "@/lib/validation";
+import { upstreamFetch, resolveApiKey } from "@/lib/upstream";
+import { isUpstreamFailure, parsePayload, ProviderError } from "@/lib/providers";
+import { array, number, object, optional, string, type Infer } from "@/lib/schema";
+import { createCache } from "@/lib/cache";
+import { singleFlight, flightKey } from "@/lib/single-flight";
+import { classifySymbol, hasFundamentals } from "@/lib/assets";
+import { apiError, providerErrorResponse, upstreamUnavailable } from "@/lib/errors";
 import type { NewsItem } from "@/lib/types";
 
 const FINNHUB_BASE_URL = "https://finnhub.io/api/v1";
 
+const companyNewsSchema = array(
+  object({
+    headline: string,
+    summary: string,
+    url: string,
+    source: string,
+    // Unix seconds
+    datetime: number,
+    image: optional(string),
+  })
+);
+
 // Keyword-based sentiment analysis
 const POSITIVE_WORDS = [
   "surge", "surges", "surging", "soar", "soars", "soaring",
@@ -53,8 +72,11 @@ function analyzeSentiment(text: string): { sentiment: "Bullish" | "Bearish" | "N
 }
 
 // Cache for news data (10 minutes - Finnhub has generous limits)
-const newsCache = new Map<string, { data: NewsItem[]; timestamp: number }>();
-const CACHE_DURATION = 10 * 60 * 1000;
+const newsCache = createCache<NewsItem[]>({
+  namespace: "news",
+  ttlMs: 10 * 60 * 1000,
+  maxEntries: 500,
+});
 
 function formatTimeAgo(timestamp: number): string {
   const date = new Date(timestamp * 1000);
@@ -92,74 +114,77 @@ export async function GET(
 ) {
   try {
     const { symbol: rawSymbol } = await params;
-    const symbol = validateSymbol(rawSymbol);
+    const symbol = validateSymbol(decodeSymbolParam(rawSymbol));
 
     if (!symbol) {
-      return NextResponse.json(
-        { error: "Invalid symbol", message: "Stock symbol must be 1-10 alphanumeric characters" },
-        { status: 400 }
-      );
+      return apiError("INVALID_SYMBOL", SYMBOL_FORMAT_MESSAGE);
+    }
+
+    // Finnhub company news only covers companies; indices, FX, futures and crypto have none
+    if (!hasFundamentals(classifySymbol(symbol))) {
+      return NextResponse.json({ news: [], cached: false });
     }
 
     // Check cache
-    const cached = newsCache.get(symbol);
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-      return NextResponse.json({ news: cached.data, cached: true });
+    const cached = await newsCache.getFresh(symbol);
+    if (cached) {
+      return NextResponse.json({ news: cached.value, cached: true });
     }
 
-    const apiKey = process.env.FINNHUB_API_KEY;
+    const apiKey = resolveApiKey("FINNHUB_API_KEY");
 
     if (!apiKey) {
-      return NextResponse.json(
-        { error: "API key not configured", message: "Finnhub API key is not set" },
-        { status: 500 }
-      );
+      return apiError("CONFIG_MISSING", "Finnhub API key is not set");
     }
 
     const { from, to } = getDateRange();
     const url = `${FINNHUB_BASE_URL}/company-news?symbol=${encodeURIComponent(symbol)}&from=${from}&to=${to}&token=${apiKey}`;
 
-    const response = await fetch(url, {
-      headers: {
-        "Content-Type": "application/json",
-      },
-      next: { revalidate: 600 }, // 10 minutes
-    });
-
-    if (!response.ok) {
-      console.error(`Finnhub API returned ${response.status} for symbol: ${symbol}`);
-
-      if (response.status === 429) {
-        return NextResponse.json(
-          { error: "Rate limit", message: "News API rate limit reached. Please try again later." },
-          { status: 429 }
-        );
-      }
-
-      return NextResponse.json(
-        { error: "News fetch failed", message: "Unable to fetch news data" },
-        { status: response.status }
-      );
+    // Concurrent lookups of the same symbol share one Finnhub call
+    let result: { ok: boolean; status: number; body: unknown };
+    try {
+      result = await singleFlight(flightKey("finnhub", symbol, { path: "company-news" }), async () => {
+        const response = await upstreamFetch(url, {
+          headers: {
+            "Content-Type": "application/json",
+          },
+          next: { revalidate: 600 }, // 10 minutes
+        });
+
+        return {
+          ok: response.ok,
+          status: response.status,
+          body: response.ok ? await response.json() : null,
+        };
+      });
+    } catch (error) {
+      // Timeouts and connection failures, before Finnhub answered at all
+      if (!isUpstreamFailure(error)) throw error;
+      console.log(error instanceof Error ? error.message : error);
+      return upstreamUnavailable();
     }
 
-    const data = await response.json();
+    if (!result.ok) {
+      console.error(`Finnhub API returned ${result.status} for symbol: ${symbol}`);
 
-    if (!Array.isArray(data)) {
-      return NextResponse.json({ news: [], cached: false });
+      return providerErrorResponse(
+        new ProviderError("finnhub", `Finnhub returned ${result.status}`, result.status),
+        `No news found for "${symbol}"`
+      );
+    }
+
+    let data: Infer<typeof companyNewsSchema>;
+    try {
+      data = parsePayload("finnhub", companyNewsSchema, result.body, "/company-news");
+    } catch (error) {
+      if (!(error instanceof ProviderError)) throw error;
+      return providerErrorResponse(error, `No news found for "${symbol}"`);
     }
 
     // Transform Finnhub response to our NewsItem format
     const newsItems: NewsItem[] = data
       .slice(0, 10)
-      .map((item: {
-        id: number;
-        headline: string;
-        summary: string;
-        url: string;
-        source: string;
-        datetime: number;
-        image: string;
-      }) => {
+      .map((item) => {
         // Analyze sentiment from headline and summary
         const textToAnalyze = `${item.headline || ""} ${item.summary || ""}`;
         const { sentiment, score } = analyzeSentiment(textToAnalyze);
@@ -177,14 +202,11 @@ export async function GET(
       });
 
     // Cache the results
-    newsCache.set(symbol, { data: newsItems, timestamp: Date.now() });
+    await newsCache.set(symbol, newsItems);
 
     return NextResponse.json({ news: newsItems, cached: false });
   } catch (error) {
     console.error("News API error:", error);
-    return NextResponse.json(
-      { error: "Server error", message: "Failed to fetch news data. Please try again later." },
-      { status: 500 }
-    );
+    return apiError("INTERNAL_ERROR", "Failed to fetch news data. Please try again later.");
   }
 }
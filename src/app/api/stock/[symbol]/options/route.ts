@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateSymbol, decodeSymbolParam, SYMBOL_FORMAT_MESSAGE, validateDateParam } from "@/lib/validation";
+import { getMarketDataProvider, isUpstreamFailure, ProviderError } from "@/lib/providers";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { apiError, rateLimitExceeded, providerErrorResponse, upstreamUnavailable } from "@/lib/errors";
+import { classifySymbol, hasOptions } from "@/lib/assets";
+import { createCache } from "@/lib/cache";
+import type { OptionChain } from "@/lib/types";
+
+// Quotes move all session, but a minute old is fine for browsing a chain
+const optionsCache = createCache<OptionChain>({
+  namespace: "options",
+  ttlMs: 60 * 1000,
+  staleMs: 2 * 60 * 1000,
+  maxEntries: 500,
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const ip = getClientIp(request);
+    if (!checkRateLimit(ip)) {
+      return rateLimitExceeded(ip);
+    }
+
+    const { symbol: rawSymbol } = await params;
+    const symbol = validateSymbol(decodeSymbolParam(rawSymbol));
+
+    if (!symbol) {
+      return apiError("INVALID_SYMBOL", SYMBOL_FORMAT_MESSAGE);
+    }
+
+    const rawExpiry = request.nextUrl.searchParams.get("expiry");
+    const expiry = rawExpiry ? validateDateParam(rawExpiry) : undefined;
+    if (expiry === null) {
+      return apiError("INVALID_PARAMETER", "Expiry must be a date in YYYY-MM-DD form");
+    }
+
+    // FX pairs, futures and crypto have no listed equity options here
+    if (!hasOptions(classifySymbol(symbol))) {
+      return apiError("UNSUPPORTED_ASSET", `No listed options for "${symbol}"`);
+    }
+
+    let chain: OptionChain;
+    try {
+      const { value } = await optionsCache.getOrLoad(`${symbol}:${expiry ?? "nearest"}`, async () => ({
+        symbol,
+        ...(await getMarketDataProvider().getOptionChain(symbol, expiry)),
+        lastUpdated: new Date().toISOString(),
+      }));
+      chain = value;
+    } catch (error) {
+      // Network errors and timeouts land here too; they mean the same thing as a 5xx
+      if (!(error instanceof ProviderError) && !isUpstreamFailure(error)) throw error;
+      console.log(error instanceof Error ? error.message : error);
+      if (!(error instanceof ProviderError)) return upstreamUnavailable();
+      return providerErrorResponse(error, `No listed options for "${symbol}"`);
+    }
+
+    if (chain.expirations.length === 0) {
+      return apiError("NOT_FOUND", `No listed options for "${symbol}"`);
+    }
+    if (expiry && chain.expiry !== expiry) {
+      return apiError(
+        "INVALID_PARAMETER",
+        `No ${symbol} options expire on ${expiry}. Listed expiries: ${chain.expirations.slice(0, 6).join(", ")}${chain.expirations.length > 6 ? ", ..." : ""}`
+      );
+    }
+
+    return NextResponse.json(chain);
+  } catch (error) {
+    console.error("Options API error:", error);
+    return apiError("INTERNAL_ERROR", "Failed to fetch options chain. Please try again later.");
+  }
+}
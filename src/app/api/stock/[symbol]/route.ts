@@ -1,33 +1,74 @@
 import { NextRequest, NextResponse } from "next/server";
-import { validateSymbol, validateYahooResponse } from "@/lib/validation";
-import type { StockData, OHLCData } from "@/lib/types";
-
-// Rate limiting map (in production, use Redis or similar)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT = 30; // requests per minute
-const RATE_WINDOW = 60000; // 1 minute
-
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now();
-  const entry = rateLimitMap.get(ip);
-
-  if (!entry || now > entry.resetTime) {
-    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_WINDOW });
-    return true;
-  }
-
-  if (entry.count >= RATE_LIMIT) {
-    return false;
+import {
+  validateSymbol,
+  decodeSymbolParam,
+  SYMBOL_FORMAT_MESSAGE,
+  parseHistoryQuery,
+  parseBooleanParam,
+} from "@/lib/validation";
+import {
+  adjustBars,
+  getMarketDataProvider,
+  isUpstreamFailure,
+  ProviderError,
+  type CorporateActionEvent,
+  type PriceHistory,
+} from "@/lib/providers";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { apiError, rateLimitExceeded, providerErrorResponse, upstreamUnavailable } from "@/lib/errors";
+import { createCache } from "@/lib/cache";
+import { classifySymbol, getTradingCalendar } from "@/lib/assets";
+import { isIntradayInterval } from "@/lib/format";
+import type {
+  StockData,
+  OHLCData,
+  HistoryInterval,
+  CorporateAction,
+  AssetType,
+  ExtendedHoursQuote,
+} from "@/lib/types";
+
+// Last good response per query, served (flagged stale) while every provider is failing
+const lastGoodCache = createCache<StockData>({
+  namespace: "stock-last-good",
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+});
+
+/**
+ * Bars per trading year, used to annualize the Sharpe ratio for each candle size.
+ * Crypto trades every day around the clock, FX and futures around the clock on weekdays.
+ */
+function periodsPerYear(interval: HistoryInterval, assetType: AssetType): number {
+  const { daysPerYear, hoursPerDay } = getTradingCalendar(assetType);
+  switch (interval) {
+    case "1m":
+      return daysPerYear * hoursPerDay * 60;
+    case "5m":
+      return daysPerYear * hoursPerDay * 12;
+    case "15m":
+      return daysPerYear * hoursPerDay * 4;
+    case "1h":
+      // A 6.5 hour session still prints 7 hourly bars
+      return daysPerYear * Math.ceil(hoursPerDay);
+    case "1d":
+      return daysPerYear;
+    case "1wk":
+      return 52;
+    case "1mo":
+      return 12;
   }
+}
 
-  entry.count++;
-  return true;
+function roundPrice(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
 }
 
-function calculateSharpeRatio(prices: number[]): number {
+function calculateSharpeRatio(prices: number[], periodsPerYear: number = 252): number {
   if (prices.length < 2) return 0;
 
-  // Calculate daily returns
+  // Calculate per-period returns
   const returns: number[] = [];
   for (let i = 1; i < prices.length; i++) {
     const dailyReturn = (prices[i] - prices[i - 1]) / prices[i - 1];
@@ -44,12 +85,12 @@ function calculateSharpeRatio(prices: number[]): number {
   const variance = squaredDiffs.reduce((a, b) => a + b, 0) / returns.length;
   const stdDev = Math.sqrt(variance);
 
-  // Risk-free rate (0.02% daily ≈ 5% annual)
-  const riskFreeRate = 0.0002;
+  // Risk-free rate (0.02% daily ≈ 5% annual), scaled to the candle size
+  const riskFreeRate = (0.0002 * 252) / periodsPerYear;
 
-  // Sharpe Ratio (annualized with sqrt(252))
+  // Sharpe Ratio (annualized with sqrt(periods per year))
   if (stdDev === 0) return 0;
-  const sharpeRatio = ((avgReturn - riskFreeRate) / stdDev) * Math.sqrt(252);
+  const sharpeRatio = ((avgReturn - riskFreeRate) / stdDev) * Math.sqrt(periodsPerYear);
 
   return Math.round(sharpeRatio * 100) / 100;
 }
@@ -64,10 +105,46 @@ function formatVolume(volume: number): number {
   return volume;
 }
 
-function formatDate(timestamp: number): string {
-  const date = new Date(timestamp * 1000);
-  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-  return `${months[date.getMonth()]} ${date.getDate()}`;
+function toIsoTimestamp(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+/**
+ * Pre-market or after-hours move relative to the regular session price.
+ * Only exchange-listed stocks and funds have extended sessions; failures just hide the line.
+ */
+async function getExtendedHours(
+  symbol: string,
+  assetType: AssetType,
+  regularPrice: number,
+  decimals: number
+): Promise<ExtendedHoursQuote | null> {
+  if (assetType !== "equity" && assetType !== "etf") return null;
+
+  try {
+    const trade = await getMarketDataProvider().getExtendedHours(symbol);
+    if (!trade || !regularPrice) return null;
+
+    const change = trade.price - regularPrice;
+    return {
+      session: trade.session,
+      price: roundPrice(trade.price, decimals),
+      change: roundPrice(change, decimals),
+      changePercent: Math.round((change / regularPrice) * 10000) / 100,
+      timestamp: toIsoTimestamp(trade.timestamp),
+    };
+  } catch (error) {
+    console.log(`Extended hours unavailable for ${symbol}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function toCorporateAction(event: CorporateActionEvent): CorporateAction {
+  const timestamp = toIsoTimestamp(event.timestamp);
+  if (event.type === "split") {
+    return { type: "split", timestamp, ratio: `${event.numerator}:${event.denominator}` };
+  }
+  return { type: "dividend", timestamp, amount: event.amount };
 }
 
 export async function GET(
@@ -76,121 +153,131 @@ export async function GET(
 ) {
   try {
     // Get client IP for rate limiting
-    const forwarded = request.headers.get("x-forwarded-for");
-    const ip = forwarded ? forwarded.split(",")[0] : "unknown";
-
+    const ip = getClientIp(request);
     if (!checkRateLimit(ip)) {
-      return NextResponse.json(
-        { error: "Rate limit exceeded", message: "Please wait before making another request" },
-        { status: 429 }
-      );
+      return rateLimitExceeded(ip);
     }
 
     const { symbol: rawSymbol } = await params;
 
     // Validate symbol
-    const symbol = validateSymbol(rawSymbol);
+    const symbol = validateSymbol(decodeSymbolParam(rawSymbol));
     if (!symbol) {
-      return NextResponse.json(
-        { error: "Invalid symbol", message: "Stock symbol must be 1-10 alphanumeric characters" },
-        { status: 400 }
-      );
+      return apiError("INVALID_SYMBOL", SYMBOL_FORMAT_MESSAGE);
     }
 
-    // Fetch from Yahoo Finance
-    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?interval=1d&range=5d`;
-
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; stocky-ahh/1.0)",
-      },
-      next: { revalidate: 60 }, // Cache for 60 seconds
-    });
-
-    if (!response.ok) {
-      console.log(`Yahoo API returned ${response.status} for symbol: ${symbol}`);
-      return NextResponse.json(
-        { error: "Stock not found", message: `Unable to find stock data for "${symbol}"` },
-        { status: 404 }
-      );
+    // Validate range and interval (interval defaults per range)
+    const searchParams = request.nextUrl.searchParams;
+    const query = parseHistoryQuery(searchParams);
+    if (query.error !== undefined) {
+      return apiError("INVALID_PARAMETER", query.message);
     }
+    const { range, interval } = query;
 
-    const data = await response.json();
+    // Adjusted prices are the default so splits and dividends don't look like crashes
+    const adjusted = parseBooleanParam(searchParams.get("adjusted"), true);
+    if (adjusted === null) {
+      return apiError("INVALID_PARAMETER", "adjusted must be true or false");
+    }
 
-    // Validate response structure
-    if (!validateYahooResponse(data)) {
-      console.log(`Invalid Yahoo response structure for symbol: ${symbol}`);
-      return NextResponse.json(
-        { error: "Stock not found", message: `Unable to find stock data for "${symbol}"` },
-        { status: 404 }
-      );
+    // Pre-market and after-hours candles only exist for intraday intervals
+    const requestedPrePost = parseBooleanParam(searchParams.get("includePrePost"), false);
+    if (requestedPrePost === null) {
+      return apiError("INVALID_PARAMETER", "includePrePost must be true or false");
     }
+    const includePrePost = requestedPrePost && isIntradayInterval(interval);
+
+    const cacheKey = [symbol, range, interval, adjusted, includePrePost].join(":");
+
+    // Fetch price history from the configured market data provider
+    let history: PriceHistory;
+    try {
+      history = await getMarketDataProvider().getHistory(symbol, { range, interval, includePrePost });
+    } catch (error) {
+      // Network errors and timeouts land here too; they mean the same thing as a 5xx
+      if (!(error instanceof ProviderError) && !isUpstreamFailure(error)) throw error;
+      console.log(error instanceof Error ? error.message : error);
+
+      const notFoundMessage = `Unable to find stock data for "${symbol}"`;
+      if (!isUpstreamFailure(error)) {
+        return apiError("NOT_FOUND", notFoundMessage);
+      }
 
-    const result = data.chart.result[0];
-    const meta = result.meta;
-    const timestamps = result.timestamp || [];
-    const quote = result.indicators?.quote?.[0] || {};
+      const lastGood = await lastGoodCache.get(cacheKey);
+      if (lastGood) {
+        return NextResponse.json({ ...lastGood.value, stale: true });
+      }
 
-    // Extract OHLC data
-    const ohlc: OHLCData[] = [];
-    const closePrices: number[] = [];
-
-    for (let i = 0; i < timestamps.length; i++) {
-      const open = quote.open?.[i];
-      const high = quote.high?.[i];
-      const low = quote.low?.[i];
-      const close = quote.close?.[i];
-      const volume = quote.volume?.[i];
-
-      if (open != null && high != null && low != null && close != null) {
-        ohlc.push({
-          date: formatDate(timestamps[i]),
-          open: Math.round(open * 100) / 100,
-          high: Math.round(high * 100) / 100,
-          low: Math.round(low * 100) / 100,
-          close: Math.round(close * 100) / 100,
-          volume: volume || 0,
-        });
-        closePrices.push(close);
+      if (error instanceof ProviderError) {
+        return providerErrorResponse(error, notFoundMessage);
       }
+      return upstreamUnavailable();
     }
 
+    const { quote, corporateActions, timezone } = history;
+    const bars = adjusted ? adjustBars(history.bars) : history.bars;
+    const assetType = quote.assetType ?? classifySymbol(symbol);
+    // FX rates move in the fourth decimal place
+    const decimals = assetType === "currency" ? 4 : 2;
+
+    // Extract OHLC data
+    const ohlc: OHLCData[] = bars.map((bar) => ({
+      timestamp: toIsoTimestamp(bar.timestamp),
+      open: roundPrice(bar.open, decimals),
+      high: roundPrice(bar.high, decimals),
+      low: roundPrice(bar.low, decimals),
+      close: roundPrice(bar.close, decimals),
+      volume: bar.volume,
+      ...(bar.adjClose != null && { adjClose: roundPrice(bar.adjClose, decimals) }),
+      ...(bar.session && { session: bar.session }),
+    }));
+    const closePrices = bars.map((bar) => bar.close);
+
     if (ohlc.length === 0) {
-      return NextResponse.json(
-        { error: "No data available", message: `No price data available for "${symbol}"` },
-        { status: 404 }
-      );
+      return apiError("NOT_FOUND", `No price data available for "${symbol}"`);
     }
 
-    const currentPrice = meta.regularMarketPrice || closePrices[closePrices.length - 1];
-    const previousClose = meta.chartPreviousClose || meta.previousClose || closePrices[closePrices.length - 2] || currentPrice;
+    const currentPrice = quote.price || closePrices[closePrices.length - 1];
+    const previousClose = quote.previousClose || closePrices[closePrices.length - 2] || currentPrice;
     const change = currentPrice - previousClose;
     const changePercent = (change / previousClose) * 100;
-    const sharpeRatio = calculateSharpeRatio(closePrices);
+    const extendedHours = await getExtendedHours(symbol, assetType, currentPrice, decimals);
+    const sharpeRatio = calculateSharpeRatio(closePrices, periodsPerYear(interval, assetType));
 
     const stockData: StockData = {
       symbol: symbol,
-      name: meta.longName || meta.shortName || symbol,
-      currentPrice: Math.round(currentPrice * 100) / 100,
-      previousClose: Math.round(previousClose * 100) / 100,
-      change: Math.round(change * 100) / 100,
+      name: quote.name,
+      currentPrice: roundPrice(currentPrice, decimals),
+      previousClose: roundPrice(previousClose, decimals),
+      change: roundPrice(change, decimals),
       changePercent: Math.round(changePercent * 100) / 100,
-      dayHigh: Math.round((meta.regularMarketDayHigh || ohlc[ohlc.length - 1]?.high || currentPrice) * 100) / 100,
-      dayLow: Math.round((meta.regularMarketDayLow || ohlc[ohlc.length - 1]?.low || currentPrice) * 100) / 100,
-      volume: formatVolume(meta.regularMarketVolume || ohlc[ohlc.length - 1]?.volume || 0),
+      dayHigh: roundPrice(quote.dayHigh || ohlc[ohlc.length - 1]?.high || currentPrice, decimals),
+      dayLow: roundPrice(quote.dayLow || ohlc[ohlc.length - 1]?.low || currentPrice, decimals),
+      volume: formatVolume(quote.volume || ohlc[ohlc.length - 1]?.volume || 0),
       ohlc,
       sharpeRatio,
       trend: determineTrend(sharpeRatio),
-      fiftyTwoWeekHigh: Math.round((meta.fiftyTwoWeekHigh || currentPrice) * 100) / 100,
-      fiftyTwoWeekLow: Math.round((meta.fiftyTwoWeekLow || currentPrice) * 100) / 100,
+      fiftyTwoWeekHigh: roundPrice(quote.fiftyTwoWeekHigh || currentPrice, decimals),
+      fiftyTwoWeekLow: roundPrice(quote.fiftyTwoWeekLow || currentPrice, decimals),
+      range,
+      interval,
+      assetType,
+      currency: quote.currency ?? "USD",
+      exchange: quote.exchange,
+      // Providers that don't report a zone send UTC timestamps
+      timezone: timezone ?? "UTC",
+      adjusted,
+      includePrePost,
+      extendedHours,
+      corporateActions: corporateActions.map(toCorporateAction),
+      stale: false,
+      fetchedAt: new Date().toISOString(),
     };
 
+    await lastGoodCache.set(cacheKey, stockData);
     return NextResponse.json(stockData);
   } catch (error) {
     console.error("Stock API error:", error);
-    return NextResponse.json(
-      { error: "Server error", message: "Failed to fetch stock data. Please try again later." },
-      { status: 500 }
-    );
+    return apiError("INTERNAL_ERROR", "Failed to fetch stock data. Please try again later.");
   }
 }
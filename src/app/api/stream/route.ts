@@ -0,0 +1,98 @@
+import type { NextRequest } from "next/server";
+import { validateSymbol, SYMBOL_FORMAT_MESSAGE } from "@/lib/validation";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { apiError, rateLimitExceeded } from "@/lib/errors";
+import { subscribeQuotes } from "@/lib/quote-stream";
+import type { LiveQuote } from "@/lib/types";
+
+const MAX_SYMBOLS = 20;
+// Proxies drop connections that go quiet, so send a comment line well inside their timeouts
+const HEARTBEAT_MS = 20 * 1000;
+// How long EventSource waits before reconnecting after a drop
+const RETRY_MS = 5 * 1000;
+
+/**
+ * Server-Sent Events: one "quote" event per price change on any of the requested symbols
+ */
+export async function GET(request: NextRequest) {
+  // The connection counts once against the rate limit, not per pushed quote
+  const ip = getClientIp(request);
+  if (!checkRateLimit(ip)) {
+    return rateLimitExceeded(ip);
+  }
+
+  const rawSymbols = (request.nextUrl.searchParams.get("symbols") ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  if (rawSymbols.length === 0) {
+    return apiError("INVALID_PARAMETER", "Pass a comma-separated list, e.g. ?symbols=AAPL,MSFT");
+  }
+
+  const symbols: string[] = [];
+  for (const raw of rawSymbols) {
+    const symbol = validateSymbol(raw);
+    if (!symbol) {
+      return apiError("INVALID_SYMBOL", `"${raw}": ${SYMBOL_FORMAT_MESSAGE}`);
+    }
+    if (!symbols.includes(symbol)) {
+      symbols.push(symbol);
+    }
+  }
+
+  if (symbols.length > MAX_SYMBOLS) {
+    return apiError("INVALID_PARAMETER", `Stream at most ${MAX_SYMBOLS} symbols at a time`);
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      const unsubscribe = subscribeQuotes(symbols, (quote: LiveQuote) => {
+        send(`event: quote\ndata: ${JSON.stringify(quote)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": keep-alive\n\n"), HEARTBEAT_MS);
+
+      close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      request.signal.addEventListener("abort", () => close());
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -2,21 +2,246 @@
 
 import { useState, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import type { OHLCData } from "@/lib/types";
+import type {
+  CandlePattern,
+  IndicatorPoint,
+  OHLCData,
+  HistoryInterval,
+  HistoryRange,
+  PatternBias,
+  PriceLevels,
+  RSIDivergence,
+} from "@/lib/types";
+import { formatAxisLabel, formatCandleTime } from "@/lib/format";
+import type { Series } from "@/lib/indicators";
 
 interface CandlestickChartProps {
   data: OHLCData[];
+  timezone: string;
+  range: HistoryRange;
+  interval: HistoryInterval;
+  // Renders axis and tooltip prices, so the chart follows the analyzer's currency display
+  formatPrice: (value: number) => string;
+  // Support/resistance drawn behind the candles; levels outside the visible prices are skipped
+  levels?: PriceLevels | null;
+  // Daily candlestick patterns from the indicators endpoint, marked on the candle of the same date
+  // on daily charts and explained in the tooltip
+  patterns?: CandlePattern[];
+  // Daily RSI and its divergences from the indicators endpoint; on daily charts adds an RSI panel
+  // under the candles and links divergent swings on both
+  rsi?: RSIOverlay | null;
+}
+
+export interface RSIOverlay {
+  period: number;
+  // The endpoint's rsi series, one point per daily candle
+  series: IndicatorPoint[];
+  divergences: RSIDivergence[];
+}
+
+// Height of the RSI panel, in the same units as the main chart's viewBox
+const RSI_PANEL_HEIGHT = 90;
+const RSI_PANEL_PADDING = { top: 10, bottom: 8 };
+
+const BIAS_COLORS: Record<PatternBias, string> = {
+  bullish: "#22c55e",
+  bearish: "#ef4444",
+  neutral: "#a1a1aa",
+};
+
+// A candle completing both bullish and bearish patterns is marked neutral
+function markerBias(patterns: CandlePattern[]): PatternBias {
+  const biases = new Set(patterns.map((pattern) => pattern.bias).filter((bias) => bias !== "neutral"));
+  return biases.size === 1 ? [...biases][0] : "neutral";
+}
+
+interface LevelLine {
+  price: number;
+  label: string;
+  color: string;
+  dash: string;
+}
+
+// Swing clusters dashed, classic pivots dotted
+function toLevelLines(levels: PriceLevels): LevelLine[] {
+  const lines: LevelLine[] = levels.swings.map((swing) => ({
+    price: swing.price,
+    label: `${swing.kind === "support" ? "S" : "R"} ×${swing.touches}`,
+    color: swing.kind === "support" ? "#22c55e" : "#ef4444",
+    dash: "6 3",
+  }));
+
+  const classic = levels.pivots.find((set) => set.method === "classic");
+  if (classic) {
+    lines.push({ price: classic.pivot, label: "P", color: "#f59e0b", dash: "2 3" });
+    classic.resistance.slice(0, 2).forEach((price, i) => {
+      lines.push({ price, label: `R${i + 1}`, color: "#f59e0b", dash: "2 3" });
+    });
+    classic.support.slice(0, 2).forEach((price, i) => {
+      lines.push({ price, label: `S${i + 1}`, color: "#f59e0b", dash: "2 3" });
+    });
+  }
+  return lines;
+}
+
+function describeDivergence(divergence: RSIDivergence): string {
+  return divergence.bias === "bullish"
+    ? `Bullish divergence: price made a lower low while RSI made a higher low (${divergence.start.rsi} → ${divergence.end.rsi})`
+    : `Bearish divergence: price made a higher high while RSI made a lower high (${divergence.start.rsi} → ${divergence.end.rsi})`;
+}
+
+interface RSIPanelProps {
+  series: Series;
+  divergences: RSIDivergence[];
+  period: number;
+  // Horizontal layout of the price chart above, so candles line up
+  width: number;
+  left: number;
+  right: number;
+  scaleX: (index: number) => number;
+}
+
+function RSIPanel({ series, divergences, period, width, left, right, scaleX }: RSIPanelProps) {
+  const plotHeight = RSI_PANEL_HEIGHT - RSI_PANEL_PADDING.top - RSI_PANEL_PADDING.bottom;
+  const scaleY = (value: number) => RSI_PANEL_PADDING.top + ((100 - value) / 100) * plotHeight;
+
+  // One subpath per unbroken run of values
+  let path = "";
+  series.forEach((value, index) => {
+    if (value === null) return;
+    path += `${index > 0 && series[index - 1] !== null ? "L" : "M"} ${scaleX(index)} ${scaleY(value)} `;
+  });
+
+  return (
+    <svg viewBox={`0 0 ${width} ${RSI_PANEL_HEIGHT}`} className="w-full h-auto mt-1" style={{ maxHeight: "110px" }}>
+      {/* Neutral zone between oversold and overbought */}
+      <rect
+        x={left}
+        y={scaleY(70)}
+        width={width - left - right}
+        height={scaleY(30) - scaleY(70)}
+        fill="rgba(234,179,8,0.05)"
+      />
+      {[70, 30].map((level) => (
+        <g key={level}>
+          <line
+            x1={left}
+            y1={scaleY(level)}
+            x2={width - right}
+            y2={scaleY(level)}
+            stroke={level === 70 ? "#ef4444" : "#22c55e"}
+            strokeOpacity={0.5}
+            strokeDasharray="4"
+          />
+          <text
+            x={width - right + 8}
+            y={scaleY(level) + 4}
+            fill="#a1a1aa"
+            fontSize="10"
+            fontFamily="var(--font-jetbrains-mono)"
+          >
+            {level}
+          </text>
+        </g>
+      ))}
+      <text x={left + 2} y={RSI_PANEL_PADDING.top - 2} fill="#a1a1aa" fontSize="9" fontFamily="var(--font-jetbrains-mono)">
+        RSI({period})
+      </text>
+
+      {path ? (
+        <path d={path} fill="none" stroke="#a78bfa" strokeWidth={1.25} />
+      ) : (
+        <text
+          x={left + (width - left - right) / 2}
+          y={RSI_PANEL_HEIGHT / 2 + 4}
+          fill="#a1a1aa"
+          fontSize="10"
+          textAnchor="middle"
+        >
+          Not enough candles for RSI({period})
+        </text>
+      )}
+
+      {divergences.map((divergence) => (
+        <line
+          key={`${divergence.bias}-${divergence.start.index}-${divergence.end.index}`}
+          x1={scaleX(divergence.start.rsiIndex)}
+          y1={scaleY(divergence.start.rsi)}
+          x2={scaleX(divergence.end.rsiIndex)}
+          y2={scaleY(divergence.end.rsi)}
+          stroke={BIAS_COLORS[divergence.bias]}
+          strokeWidth={1.5}
+          strokeLinecap="round"
+        >
+          <title>{describeDivergence(divergence)}</title>
+        </line>
+      ))}
+    </svg>
+  );
 }
 
 interface TooltipData {
   x: number;
   y: number;
   data: OHLCData;
+  patterns: CandlePattern[];
 }
 
-export function CandlestickChart({ data }: CandlestickChartProps) {
+export function CandlestickChart({
+  data,
+  timezone,
+  range,
+  interval,
+  formatPrice,
+  levels,
+  patterns,
+  rsi,
+}: CandlestickChartProps) {
   const [tooltip, setTooltip] = useState<TooltipData | null>(null);
 
+  // Grouped by the candle that completes them
+  const patternsByCandle = useMemo(() => {
+    const grouped = new Map<number, CandlePattern[]>();
+    if (!patterns || interval !== "1d") return grouped;
+    const indexByDate = new Map(data.map((candle, index) => [candle.timestamp.slice(0, 10), index]));
+    for (const pattern of patterns) {
+      const index = indexByDate.get(pattern.timestamp.slice(0, 10));
+      if (index !== undefined) {
+        grouped.set(index, [...(grouped.get(index) ?? []), pattern]);
+      }
+    }
+    return grouped;
+  }, [data, patterns, interval]);
+
+  // The endpoint's readings moved onto this chart's candles; divergences with a swing off the chart are dropped
+  const momentum = useMemo(() => {
+    if (!rsi || interval !== "1d") return null;
+    const indexByDate = new Map(data.map((candle, index) => [candle.timestamp.slice(0, 10), index]));
+    const indexOf = (timestamp: string) => indexByDate.get(timestamp.slice(0, 10));
+
+    const series: Series = data.map(() => null);
+    for (const point of rsi.series) {
+      const index = indexOf(point.timestamp);
+      if (index !== undefined) series[index] = point.values.rsi ?? null;
+    }
+
+    const divergences: RSIDivergence[] = [];
+    for (const divergence of rsi.divergences) {
+      const [start, end] = [divergence.start, divergence.end];
+      const [startIndex, endIndex] = [indexOf(start.timestamp), indexOf(end.timestamp)];
+      const [startRsiIndex, endRsiIndex] = [indexOf(start.rsiTimestamp), indexOf(end.rsiTimestamp)];
+      if (startIndex === undefined || endIndex === undefined
+        || startRsiIndex === undefined || endRsiIndex === undefined) continue;
+      divergences.push({
+        ...divergence,
+        start: { ...start, index: startIndex, rsiIndex: startRsiIndex },
+        end: { ...end, index: endIndex, rsiIndex: endRsiIndex },
+      });
+    }
+
+    return { period: rsi.period, series, divergences };
+  }, [data, rsi, interval]);
+
   const chartConfig = useMemo(() => {
     if (data.length === 0) return null;
 
@@ -39,6 +264,15 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
 
     const candleWidth = chartWidth / data.length * 0.6;
     const candleSpacing = chartWidth / data.length;
+    const wickWidth = Math.max(Math.min(2, candleSpacing * 0.3), 0.5);
+    const markerSize = Math.max(Math.min(4, candleSpacing * 0.35), 1.5);
+
+    // Long ranges have hundreds of candles; only label a handful of them
+    const maxXLabels = 6;
+    const labelStep = Math.max(1, Math.ceil(data.length / maxXLabels));
+
+    // Keep the entry animation around one second regardless of candle count
+    const animationStep = Math.min(0.1, 1 / data.length);
 
     const scaleY = (price: number): number => {
       return chartHeight - ((price - yMin) / yRange) * chartHeight + padding.top;
@@ -54,7 +288,7 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
     for (let i = 0; i <= labelCount; i++) {
       const value = yMin + (yRange / labelCount) * i;
       yLabels.push({
-        value: Math.round(value * 100) / 100,
+        value,
         y: scaleY(value),
       });
     }
@@ -67,6 +301,10 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
       chartHeight,
       candleWidth,
       candleSpacing,
+      wickWidth,
+      markerSize,
+      labelStep,
+      animationStep,
       scaleX,
       scaleY,
       yLabels,
@@ -113,15 +351,76 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
             fontSize="10"
             fontFamily="var(--font-jetbrains-mono)"
           >
-            ${label.value.toFixed(2)}
+            {formatPrice(label.value)}
           </text>
         ))}
 
+        {/* Open gaps */}
+        {levels?.gaps.map((gap) => {
+          const top = Math.min(gap.top, chartConfig.yMax);
+          const bottom = Math.max(gap.bottom, chartConfig.yMin);
+          if (top <= bottom) return null;
+          return (
+            <rect
+              key={`gap-${gap.timestamp}`}
+              x={chartConfig.padding.left}
+              y={chartConfig.scaleY(top)}
+              width={chartConfig.chartWidth}
+              height={chartConfig.scaleY(bottom) - chartConfig.scaleY(top)}
+              fill="rgba(56,189,248,0.08)"
+            />
+          );
+        })}
+
+        {/* Support and resistance */}
+        {levels && toLevelLines(levels)
+          .filter((line) => line.price > chartConfig.yMin && line.price < chartConfig.yMax)
+          .map((line) => {
+            const y = chartConfig.scaleY(line.price);
+            return (
+              <g key={`${line.label}-${line.price}`}>
+                <line
+                  x1={chartConfig.padding.left}
+                  y1={y}
+                  x2={chartConfig.width - chartConfig.padding.right}
+                  y2={y}
+                  stroke={line.color}
+                  strokeOpacity={0.6}
+                  strokeWidth={0.75}
+                  strokeDasharray={line.dash}
+                />
+                <text
+                  x={chartConfig.padding.left + 2}
+                  y={y - 2}
+                  fill={line.color}
+                  fillOpacity={0.8}
+                  fontSize="8"
+                  fontFamily="var(--font-jetbrains-mono)"
+                >
+                  {line.label}
+                </text>
+              </g>
+            );
+          })}
+
+        {/* Extended-hours shading */}
+        {data.map((candle, index) => candle.session && candle.session !== "regular" && (
+          <rect
+            key={index}
+            x={chartConfig.scaleX(index) - chartConfig.candleSpacing / 2}
+            y={chartConfig.padding.top}
+            width={chartConfig.candleSpacing}
+            height={chartConfig.chartHeight}
+            fill="rgba(255,255,255,0.03)"
+          />
+        ))}
+
         {/* Candlesticks */}
         {data.map((candle, index) => {
           const x = chartConfig.scaleX(index);
           const isBullish = candle.close >= candle.open;
           const color = isBullish ? "#22c55e" : "#ef4444";
+          const isExtended = candle.session !== undefined && candle.session !== "regular";
 
           const openY = chartConfig.scaleY(candle.open);
           const closeY = chartConfig.scaleY(candle.close);
@@ -131,12 +430,16 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
           const bodyTop = Math.min(openY, closeY);
           const bodyHeight = Math.abs(closeY - openY);
 
+          const patterns = patternsByCandle.get(index) ?? [];
+          const bias = markerBias(patterns);
+          const size = chartConfig.markerSize;
+
           return (
             <motion.g
               key={index}
               initial={{ opacity: 0, scaleY: 0 }}
-              animate={{ opacity: 1, scaleY: 1 }}
-              transition={{ delay: index * 0.1, duration: 0.3 }}
+              animate={{ opacity: isExtended ? 0.45 : 1, scaleY: 1 }}
+              transition={{ delay: index * chartConfig.animationStep, duration: 0.3 }}
               style={{ transformOrigin: `${x}px ${chartConfig.height}px` }}
               onMouseEnter={(e) => {
                 const rect = (e.target as SVGElement).ownerSVGElement?.getBoundingClientRect();
@@ -145,6 +448,7 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
                     x: x,
                     y: bodyTop - 10,
                     data: candle,
+                    patterns,
                   });
                 }
               }}
@@ -158,7 +462,7 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
                 x2={x}
                 y2={lowY}
                 stroke={color}
-                strokeWidth={2}
+                strokeWidth={chartConfig.wickWidth}
               />
 
               {/* Body */}
@@ -170,7 +474,7 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
                 fill={isBullish ? color : color}
                 stroke={color}
                 strokeWidth={1}
-                rx={2}
+                rx={Math.min(2, chartConfig.candleWidth / 4)}
               />
 
               {/* Hover highlight */}
@@ -182,12 +486,46 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
                 fill="transparent"
                 className="hover:fill-white/5 transition-colors"
               />
+
+              {/* Pattern marker: up under the low when bullish, down over the high otherwise */}
+              {patterns.length > 0 && (bias === "bullish" ? (
+                <path
+                  d={`M ${x} ${lowY + 3} l ${size} ${size * 1.6} h ${-2 * size} Z`}
+                  fill={BIAS_COLORS[bias]}
+                />
+              ) : bias === "bearish" ? (
+                <path
+                  d={`M ${x} ${highY - 3} l ${size} ${-size * 1.6} h ${-2 * size} Z`}
+                  fill={BIAS_COLORS[bias]}
+                />
+              ) : (
+                <circle cx={x} cy={highY - 3 - size} r={size * 0.8} fill={BIAS_COLORS[bias]} />
+              ))}
             </motion.g>
           );
         })}
 
+        {/* RSI divergences: under the lows when bullish, over the highs when bearish */}
+        {momentum?.divergences.map((divergence) => {
+          const offset = divergence.bias === "bullish" ? 4 : -4;
+          return (
+            <line
+              key={`${divergence.bias}-${divergence.start.index}-${divergence.end.index}`}
+              x1={chartConfig.scaleX(divergence.start.index)}
+              y1={chartConfig.scaleY(divergence.start.price) + offset}
+              x2={chartConfig.scaleX(divergence.end.index)}
+              y2={chartConfig.scaleY(divergence.end.price) + offset}
+              stroke={BIAS_COLORS[divergence.bias]}
+              strokeWidth={1.5}
+              strokeLinecap="round"
+            >
+              <title>{describeDivergence(divergence)}</title>
+            </line>
+          );
+        })}
+
         {/* X-axis labels */}
-        {data.map((candle, index) => (
+        {data.map((candle, index) => index % chartConfig.labelStep === 0 && (
           <text
             key={index}
             x={chartConfig.scaleX(index)}
@@ -197,11 +535,40 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
             textAnchor="middle"
             fontFamily="var(--font-jetbrains-mono)"
           >
-            {candle.date}
+            {formatAxisLabel(candle.timestamp, timezone, range, interval)}
           </text>
         ))}
       </svg>
 
+      {momentum && (
+        <RSIPanel
+          series={momentum.series}
+          divergences={momentum.divergences}
+          period={momentum.period}
+          width={chartConfig.width}
+          left={chartConfig.padding.left}
+          right={chartConfig.padding.right}
+          scaleX={chartConfig.scaleX}
+        />
+      )}
+
+      {levels && (
+        <p className="text-[10px] text-muted-foreground mt-1">
+          Dashed: swing support (S) and resistance (R), ×touches. Dotted: classic pivots from the last
+          session. Shaded: open gaps.
+        </p>
+      )}
+      {momentum && momentum.divergences.length > 0 && (
+        <p className="text-[10px] text-muted-foreground mt-1">
+          Solid lines: RSI divergences, price and RSI swings disagreeing (green bullish, red bearish).
+        </p>
+      )}
+      {patternsByCandle.size > 0 && (
+        <p className="text-[10px] text-muted-foreground mt-1">
+          Markers: candlestick patterns (green bullish, red bearish, grey indecision). Hover a candle for details.
+        </p>
+      )}
+
       {/* Tooltip */}
       <AnimatePresence>
         {tooltip && (
@@ -217,16 +584,35 @@ export function CandlestickChart({ data }: CandlestickChartProps) {
             }}
           >
             <div className="bg-card border border-border rounded-lg p-3 shadow-xl text-xs font-mono">
+              <div className="text-muted-foreground mb-1.5 whitespace-nowrap">
+                {formatCandleTime(tooltip.data.timestamp, timezone, interval)}
+              </div>
               <div className="grid grid-cols-2 gap-x-4 gap-y-1">
                 <span className="text-muted-foreground">Open:</span>
-                <span className="text-right">${tooltip.data.open.toFixed(2)}</span>
+                <span className="text-right">{formatPrice(tooltip.data.open)}</span>
                 <span className="text-muted-foreground">High:</span>
-                <span className="text-right text-[#22c55e]">${tooltip.data.high.toFixed(2)}</span>
+                <span className="text-right text-[#22c55e]">{formatPrice(tooltip.data.high)}</span>
                 <span className="text-muted-foreground">Low:</span>
-                <span className="text-right text-[#ef4444]">${tooltip.data.low.toFixed(2)}</span>
+                <span className="text-right text-[#ef4444]">{formatPrice(tooltip.data.low)}</span>
                 <span className="text-muted-foreground">Close:</span>
-                <span className="text-right">${tooltip.data.close.toFixed(2)}</span>
+                <span className="text-right">{formatPrice(tooltip.data.close)}</span>
               </div>
+              {tooltip.data.session && tooltip.data.session !== "regular" && (
+                <div className="text-muted-foreground mt-1.5">
+                  {tooltip.data.session === "pre" ? "Pre-market" : "After hours"}
+                </div>
+              )}
+              {tooltip.patterns.map((pattern) => (
+                <div key={pattern.pattern} className="mt-1.5 w-56 font-sans whitespace-normal">
+                  <span className="font-medium" style={{ color: BIAS_COLORS[pattern.bias] }}>
+                    {pattern.name}
+                  </span>
+                  {pattern.length > 1 && (
+                    <span className="text-muted-foreground"> ({pattern.length} candles)</span>
+                  )}
+                  <p className="text-muted-foreground">{pattern.description}</p>
+                </div>
+              ))}
             </div>
           </motion.div>
         )}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Building2, ExternalLink } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Spinner } from "@/components/ui/spinner";
+import { formatCompactMoney, formatMoney } from "@/lib/format";
+import { describeError, toRequestError } from "@/lib/api-errors";
+import type { CompanyProfile } from "@/lib/types";
+
+interface CompanyFundamentalsProps {
+  symbol: string;
+  // Listing currency from the quote, used when the profile does not report one
+  currency: string;
+}
+
+function formatPercent(fraction: number | null): string {
+  return fraction === null ? "—" : `${(fraction * 100).toFixed(2)}%`;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+export function CompanyFundamentals({ symbol, currency }: CompanyFundamentalsProps) {
+  const [profile, setProfile] = useState<CompanyProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfile = useCallback(async () => {
+    if (!symbol) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/stock/${encodeURIComponent(symbol)}/profile`);
+
+      if (!response.ok) {
+        throw await toRequestError(response, "Failed to fetch fundamentals");
+      }
+
+      setProfile(await response.json());
+    } catch (err) {
+      setProfile(null);
+      setError(describeError(err, "fundamentals"));
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol]);
+
+  useEffect(() => {
+    if (symbol) {
+      fetchProfile();
+    }
+  }, [symbol, fetchProfile]);
+
+  const profileCurrency = profile?.currency ?? currency;
+  const metrics = profile
+    ? [
+        {
+          label: "Market Cap",
+          value: profile.marketCap === null ? "—" : formatCompactMoney(profile.marketCap, profileCurrency),
+        },
+        { label: "P/E Ratio", value: formatRatio(profile.peRatio) },
+        { label: "EPS", value: profile.eps === null ? "—" : formatMoney(profile.eps, profileCurrency) },
+        { label: "Dividend Yield", value: formatPercent(profile.dividendYield) },
+        { label: "Beta", value: formatRatio(profile.beta) },
+        { label: "Profit Margin", value: formatPercent(profile.profitMargin) },
+        { label: "Operating Margin", value: formatPercent(profile.operatingMargin) },
+        { label: "Employees", value: profile.employees === null ? "—" : profile.employees.toLocaleString("en-US") },
+      ]
+    : [];
+
+  return (
+    <Card className="bg-card/50 backdrop-blur border-border/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg flex-wrap">
+          <Building2 className="h-5 w-5 text-violet-500" />
+          Fundamentals
+          {profile?.sector && (
+            <Badge variant="outline" className="text-xs border-violet-500/30 text-violet-500">
+              {profile.sector}
+            </Badge>
+          )}
+          {profile?.industry && (
+            <Badge variant="outline" className="text-xs">
+              {profile.industry}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Spinner size="md" className="text-violet-500" />
+          </div>
+        )}
+
+        {error && !loading && (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        )}
+
+        {profile && !loading && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {metrics.map((metric) => (
+                <div key={metric.label} className="rounded-lg border border-border/50 p-3">
+                  <p className="text-xs text-muted-foreground">{metric.label}</p>
+                  <p className="text-lg font-bold font-mono">{metric.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {profile.description && (
+              <p className="text-sm text-muted-foreground line-clamp-4">{profile.description}</p>
+            )}
+
+            {(profile.website || profile.exchange || profile.country) && (
+              <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                {[profile.exchange, profile.country].filter(Boolean).join(" · ")}
+                {profile.website && (
+                  <a
+                    href={profile.website}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-violet-500 hover:underline"
+                  >
+                    {profile.website.replace(/^https?:\/\//, "").replace(/\/$/, "")}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
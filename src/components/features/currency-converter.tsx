@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { validateAmount } from "@/lib/validation";
+import { describeError, toRequestError } from "@/lib/api-errors";
 import type { ExchangeRate } from "@/lib/types";
 import { Spinner } from "@/components/ui/spinner";
 
@@ -29,7 +30,7 @@ export function CurrencyConverter() {
       const response = await fetch("/api/exchange");
 
       if (!response.ok) {
-        throw new Error("Failed to fetch exchange rate");
+        throw await toRequestError(response, "Failed to fetch exchange rate");
       }
 
       const data: ExchangeRate = await response.json();
@@ -45,7 +46,7 @@ export function CurrencyConverter() {
         setUsdAmount((validated / data.rate).toFixed(2));
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unable to fetch exchange rate");
+      setError(describeError(err, "exchange rates"));
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { CalendarClock } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Spinner } from "@/components/ui/spinner";
+import { daysUntil, formatCalendarDate, formatCompactMoney, formatMoney } from "@/lib/format";
+import { describeError, toRequestError } from "@/lib/api-errors";
+import type { EarningsData, EarningsTiming } from "@/lib/types";
+
+interface EarningsCardProps {
+  symbol: string;
+  currency: string;
+}
+
+const TIMING_LABELS: Record<EarningsTiming, string> = {
+  "pre-market": "Before open",
+  "after-close": "After close",
+};
+
+function describeCountdown(days: number): string {
+  if (days === 0) return "Today";
+  if (days === 1) return "Tomorrow";
+  return `In ${days} days`;
+}
+
+export function EarningsCard({ symbol, currency }: EarningsCardProps) {
+  const [earnings, setEarnings] = useState<EarningsData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEarnings = useCallback(async () => {
+    if (!symbol) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/stock/${encodeURIComponent(symbol)}/earnings`);
+
+      if (!response.ok) {
+        throw await toRequestError(response, "Failed to fetch earnings");
+      }
+
+      setEarnings(await response.json());
+    } catch (err) {
+      setEarnings(null);
+      setError(describeError(err, "earnings"));
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol]);
+
+  useEffect(() => {
+    if (symbol) {
+      fetchEarnings();
+    }
+  }, [symbol, fetchEarnings]);
+
+  const eps = (value: number | null) => (value === null ? "—" : formatMoney(value, currency));
+  const next = earnings?.next;
+
+  return (
+    <Card className="bg-card/50 backdrop-blur border-border/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarClock className="h-5 w-5 text-sky-500" />
+          Earnings
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Spinner size="md" className="text-sky-500" />
+          </div>
+        )}
+
+        {error && !loading && (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        )}
+
+        {earnings && !loading && (
+          <div className="space-y-4">
+            <div className="rounded-lg border border-border/50 p-3">
+              <p className="text-xs text-muted-foreground">Next report</p>
+              {next ? (
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  <span className="text-lg font-bold font-mono">{formatCalendarDate(next.date)}</span>
+                  <Badge variant="outline" className="text-xs border-sky-500/30 text-sky-500">
+                    {describeCountdown(daysUntil(next.date))}
+                  </Badge>
+                  {next.timing && (
+                    <Badge variant="outline" className="text-xs">
+                      {TIMING_LABELS[next.timing]}
+                    </Badge>
+                  )}
+                  {next.confirmed === false && (
+                    <span className="text-xs text-muted-foreground">Estimated</span>
+                  )}
+                  <span className="text-xs text-muted-foreground ml-auto font-mono">
+                    EPS est. {eps(next.epsEstimate)}
+                    {next.revenueEstimate !== null && ` · Rev. est. ${formatCompactMoney(next.revenueEstimate, currency)}`}
+                  </span>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground mt-1">Not scheduled yet</p>
+              )}
+            </div>
+
+            {earnings.history.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left font-normal pb-2">Quarter</th>
+                    <th className="text-right font-normal pb-2">Actual</th>
+                    <th className="text-right font-normal pb-2">Estimate</th>
+                    <th className="text-right font-normal pb-2">Surprise</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {earnings.history.slice(0, 4).map((quarter) => (
+                    <tr key={quarter.fiscalPeriod} className="border-t border-border/30">
+                      <td className="py-1.5 font-sans">{formatCalendarDate(quarter.fiscalPeriod)}</td>
+                      <td className="py-1.5 text-right">{eps(quarter.epsActual)}</td>
+                      <td className="py-1.5 text-right text-muted-foreground">{eps(quarter.epsEstimate)}</td>
+                      <td
+                        className={`py-1.5 text-right ${
+                          quarter.surprisePercent === null
+                            ? "text-muted-foreground"
+                            : quarter.surprisePercent >= 0
+                              ? "text-[#22c55e]"
+                              : "text-[#ef4444]"
+                        }`}
+                      >
+                        {quarter.surprisePercent === null
+                          ? "—"
+                          : `${quarter.surprisePercent >= 0 ? "+" : ""}${quarter.surprisePercent.toFixed(1)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
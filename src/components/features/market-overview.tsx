@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { TrendingUp, TrendingDown, Minus, RefreshCw } from "lucide-react";
+import { useLiveQuotes } from "@/hooks/use-live-quote";
 import type { MarketIndex } from "@/lib/types";
 
 interface MarketData {
@@ -14,6 +15,8 @@ export function MarketOverview() {
   const [data, setData] = useState<MarketData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The snapshot supplies names; prices tick from the stream after that
+  const liveQuotes = useLiveQuotes(data?.indices.map((index) => index.symbol) ?? []);
 
   const fetchData = async () => {
     try {
@@ -33,10 +36,6 @@ export function MarketOverview() {
 
   useEffect(() => {
     fetchData();
-
-    // Refresh every 60 seconds
-    const interval = setInterval(fetchData, 60000);
-    return () => clearInterval(interval);
   }, []);
 
   if (loading) {
@@ -61,7 +60,8 @@ export function MarketOverview() {
 
   return (
     <div className="flex items-center gap-1 sm:gap-4 overflow-x-auto scrollbar-hide">
-      {data.indices.map((index, i) => {
+      {data.indices.map((snapshot, i) => {
+        const index = { ...snapshot, ...liveQuotes[snapshot.symbol] };
         const isPositive = index.change >= 0;
         const isNeutral = index.change === 0;
         const Icon = isNeutral ? Minus : isPositive ? TrendingUp : TrendingDown;
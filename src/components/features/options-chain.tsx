@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Layers, ChevronDown, Check, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { formatCalendarDate, formatMoney } from "@/lib/format";
+import { describeError, toRequestError } from "@/lib/api-errors";
+import type { OptionChain, OptionContract } from "@/lib/types";
+
+interface OptionsChainProps {
+  symbol: string;
+  // Decides which strikes are in the money
+  currentPrice: number;
+  currency: string;
+}
+
+interface StrikeRow {
+  strike: number;
+  call?: OptionContract;
+  put?: OptionContract;
+}
+
+// Calls and puts side by side, one row per strike
+function toStrikeRows(chain: OptionChain): StrikeRow[] {
+  const rows = new Map<number, StrikeRow>();
+  for (const call of chain.calls) {
+    rows.set(call.strike, { ...rows.get(call.strike), strike: call.strike, call });
+  }
+  for (const put of chain.puts) {
+    rows.set(put.strike, { ...rows.get(put.strike), strike: put.strike, put });
+  }
+  return [...rows.values()].sort((a, b) => a.strike - b.strike);
+}
+
+function formatCount(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : value.toLocaleString("en-US");
+}
+
+function formatIv(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+export function OptionsChain({ symbol, currentPrice, currency }: OptionsChainProps) {
+  const [expiry, setExpiry] = useState<string | null>(null);
+  const [chain, setChain] = useState<OptionChain | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchChain = useCallback(async () => {
+    if (!symbol) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const query = expiry ? `?expiry=${encodeURIComponent(expiry)}` : "";
+      const response = await fetch(`/api/stock/${encodeURIComponent(symbol)}/options${query}`);
+
+      if (!response.ok) {
+        throw await toRequestError(response, "Failed to fetch options");
+      }
+
+      setChain(await response.json());
+    } catch (err) {
+      setChain(null);
+      setError(describeError(err, "options"));
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol, expiry]);
+
+  useEffect(() => {
+    if (symbol) {
+      fetchChain();
+    }
+  }, [symbol, fetchChain]);
+
+  const money = (value: number | null | undefined) =>
+    value === null || value === undefined ? "—" : formatMoney(value, currency);
+  const rows = chain ? toStrikeRows(chain) : [];
+  const selectedExpiry = chain?.expiry ?? expiry;
+
+  return (
+    <Card className="bg-card/50 backdrop-blur border-border/50">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Layers className="h-5 w-5 text-indigo-500" />
+            Options Chain
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {chain && chain.expirations.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-8 text-xs gap-1 font-mono">
+                    {selectedExpiry ? formatCalendarDate(selectedExpiry) : "Expiry"}
+                    <ChevronDown className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+                  {chain.expirations.map((date) => (
+                    <DropdownMenuItem
+                      key={date}
+                      onClick={() => setExpiry(date)}
+                      className="flex items-center justify-between gap-4 cursor-pointer font-mono text-xs"
+                    >
+                      {formatCalendarDate(date)}
+                      {date === selectedExpiry && <Check className="h-3.5 w-3.5 text-indigo-500" />}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {!loading && (
+              <Button variant="outline" size="sm" onClick={fetchChain} className="h-8 text-xs gap-1.5">
+                <RefreshCw className="h-3.5 w-3.5" />
+                Refresh
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Spinner size="md" className="text-indigo-500" />
+          </div>
+        )}
+
+        {error && !loading && (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        )}
+
+        {chain && !loading && (
+          <div className="overflow-x-auto">
+            <p className="text-xs text-muted-foreground mb-2">
+              Shaded cells are in the money at {money(currentPrice)}. IV is annualized.
+            </p>
+            <table className="w-full text-xs font-mono whitespace-nowrap">
+              <thead>
+                <tr className="text-muted-foreground font-sans">
+                  <th colSpan={5} className="text-center font-medium pb-1 text-[#22c55e]">Calls</th>
+                  <th />
+                  <th colSpan={5} className="text-center font-medium pb-1 text-[#ef4444]">Puts</th>
+                </tr>
+                <tr className="text-muted-foreground">
+                  <th className="text-right font-normal px-1.5 pb-2">Bid</th>
+                  <th className="text-right font-normal px-1.5 pb-2">Ask</th>
+                  <th className="text-right font-normal px-1.5 pb-2">Vol</th>
+                  <th className="text-right font-normal px-1.5 pb-2">OI</th>
+                  <th className="text-right font-normal px-1.5 pb-2">IV</th>
+                  <th className="text-center font-medium px-2 pb-2 text-foreground">Strike</th>
+                  <th className="text-right font-normal px-1.5 pb-2">Bid</th>
+                  <th className="text-right font-normal px-1.5 pb-2">Ask</th>
+                  <th className="text-right font-normal px-1.5 pb-2">Vol</th>
+                  <th className="text-right font-normal px-1.5 pb-2">OI</th>
+                  <th className="text-right font-normal px-1.5 pb-2">IV</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const callItm = row.strike < currentPrice;
+                  const putItm = row.strike > currentPrice;
+                  const callClass = `text-right px-1.5 py-1 ${callItm ? "bg-[#22c55e]/10" : ""}`;
+                  const putClass = `text-right px-1.5 py-1 ${putItm ? "bg-[#ef4444]/10" : ""}`;
+                  return (
+                    <tr key={row.strike} className="border-t border-border/30">
+                      <td className={callClass}>{money(row.call?.bid)}</td>
+                      <td className={callClass}>{money(row.call?.ask)}</td>
+                      <td className={callClass}>{formatCount(row.call?.volume)}</td>
+                      <td className={callClass}>{formatCount(row.call?.openInterest)}</td>
+                      <td className={callClass}>{formatIv(row.call?.impliedVolatility)}</td>
+                      <td className="text-center px-2 py-1 font-semibold bg-muted/20">{money(row.strike)}</td>
+                      <td className={putClass}>{money(row.put?.bid)}</td>
+                      <td className={putClass}>{money(row.put?.ask)}</td>
+                      <td className={putClass}>{formatCount(row.put?.volume)}</td>
+                      <td className={putClass}>{formatCount(row.put?.openInterest)}</td>
+                      <td className={putClass}>{formatIv(row.put?.impliedVolatility)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Activity, ChevronDown, Check } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { formatCalendarDate } from "@/lib/format";
+import { describeError, toRequestError } from "@/lib/api-errors";
+import type { RSIDivergence, RSIReading, RSISignal, RSITimeframe, TechnicalIndicators } from "@/lib/types";
+
+// Short periods react faster and hit the extremes more often
+const RSI_PERIODS = [7, 9, 14, 21, 28];
+
+interface RSICardProps {
+  symbol: string;
+  // Matches the chart's adjusted/raw prices
+  adjusted: boolean;
+  period: number;
+  onPeriodChange: (period: number) => void;
+}
+
+const TIMEFRAME_LABELS: Record<RSITimeframe, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+const SIGNAL_CLASSES: Record<RSISignal, string> = {
+  Overbought: "border-red-500 text-red-500",
+  Bullish: "border-green-500/70 text-green-500",
+  Neutral: "border-yellow-500 text-yellow-500",
+  Bearish: "border-red-500/70 text-red-500",
+  Oversold: "border-green-500 text-green-500",
+};
+
+function valueClass(value: number): string {
+  if (value >= 70) return "text-red-500";
+  if (value <= 30) return "text-green-500";
+  if (value >= 60) return "text-green-500/80";
+  if (value <= 40) return "text-red-500/80";
+  return "text-yellow-500";
+}
+
+function describeValue(value: number): string {
+  if (value >= 70) return "Consider selling - stock may be overvalued";
+  if (value <= 30) return "Consider buying - stock may be undervalued";
+  if (value >= 60) return "Bullish momentum";
+  if (value <= 40) return "Bearish momentum";
+  return "Neutral territory";
+}
+
+function describeDivergence(divergence: RSIDivergence): string {
+  const from = formatCalendarDate(divergence.start.timestamp.slice(0, 10));
+  const to = formatCalendarDate(divergence.end.timestamp.slice(0, 10));
+  const rsiChange = `RSI ${divergence.start.rsi.toFixed(1)} → ${divergence.end.rsi.toFixed(1)}`;
+  return divergence.bias === "bullish"
+    ? `Bullish divergence: price made a lower low (${from} → ${to}) while RSI made a higher low (${rsiChange})`
+    : `Bearish divergence: price made a higher high (${from} → ${to}) while RSI made a lower high (${rsiChange})`;
+}
+
+function RSIScale({ value }: { value: number }) {
+  return (
+    <div className="h-1.5 bg-muted/20 rounded-full overflow-hidden relative">
+      <div className="absolute inset-0 flex">
+        <div className="w-[30%] bg-green-500/30" />
+        <div className="w-[40%] bg-yellow-500/30" />
+        <div className="w-[30%] bg-red-500/30" />
+      </div>
+      <motion.div
+        className="absolute top-0 h-full w-1 bg-white rounded-full shadow-lg"
+        initial={{ left: "0%" }}
+        animate={{ left: `${value}%` }}
+        transition={{ duration: 1, ease: "easeOut" }}
+        style={{ transform: "translateX(-50%)" }}
+      />
+    </div>
+  );
+}
+
+export function RSICard({ symbol, adjusted, period, onPeriodChange }: RSICardProps) {
+  const [readings, setReadings] = useState<RSIReading[] | null>(null);
+  const [divergence, setDivergence] = useState<RSIDivergence | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!symbol) return;
+    // Switching period or symbol quickly must not let an older response overwrite the newer one
+    let cancelled = false;
+
+    const fetchRSI = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/stock/${encodeURIComponent(symbol)}/indicators?adjusted=${adjusted}&rsiPeriod=${period}&timeframes=true&divergences=true`
+        );
+
+        if (!response.ok) {
+          throw await toRequestError(response, "Failed to fetch RSI");
+        }
+
+        const data: TechnicalIndicators = await response.json();
+        if (cancelled) return;
+        setReadings(data.timeframes ?? null);
+        setDivergence(data.divergences?.[data.divergences.length - 1] ?? null);
+      } catch (err) {
+        if (cancelled) return;
+        setReadings(null);
+        setDivergence(null);
+        setError(describeError(err, "RSI"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchRSI();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, adjusted, period]);
+
+  const daily = readings?.find((reading) => reading.timeframe === "daily");
+
+  return (
+    <Card className="bg-card/50 backdrop-blur border-border/50">
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Activity className="h-5 w-5" />
+            RSI ({period})
+          </CardTitle>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 text-xs gap-1 font-mono">
+                Period {period}
+                <ChevronDown className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {RSI_PERIODS.map((option) => (
+                <DropdownMenuItem
+                  key={option}
+                  onClick={() => onPeriodChange(option)}
+                  className="flex items-center justify-between gap-4 cursor-pointer font-mono text-xs"
+                >
+                  {option}
+                  {option === period && <Check className="h-3.5 w-3.5" />}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Spinner size="md" />
+          </div>
+        )}
+
+        {error && !loading && (
+          <p className="text-sm text-muted-foreground text-center py-4">{error}</p>
+        )}
+
+        {readings && !loading && (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              {readings.map((reading) => (
+                <div key={reading.timeframe} className="rounded-lg border border-border/50 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-1 flex-wrap">
+                    <span className="text-xs text-muted-foreground">{TIMEFRAME_LABELS[reading.timeframe]}</span>
+                    {reading.signal && (
+                      <Badge variant="outline" className={`text-[10px] ${SIGNAL_CLASSES[reading.signal]}`}>
+                        {reading.signal}
+                      </Badge>
+                    )}
+                  </div>
+                  {reading.value !== null ? (
+                    <>
+                      <p className={`text-2xl font-bold font-mono ${valueClass(reading.value)}`}>
+                        {reading.value.toFixed(1)}
+                      </p>
+                      <RSIScale value={reading.value} />
+                    </>
+                  ) : (
+                    <p className="text-xs text-muted-foreground py-2">Not enough history</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-between text-xs">
+              <span className="text-green-500">Oversold ≤ 30</span>
+              <span className="text-yellow-500">Neutral</span>
+              <span className="text-red-500">Overbought ≥ 70</span>
+            </div>
+
+            {daily && daily.value !== null && (
+              <p className="text-sm text-muted-foreground">{describeValue(daily.value)}</p>
+            )}
+
+            {divergence && (
+              <p className={`text-sm ${divergence.bias === "bullish" ? "text-green-500" : "text-red-500"}`}>
+                {describeDivergence(divergence)}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,19 +1,30 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Search, TrendingUp, TrendingDown, Minus, Info, BarChart3, Lightbulb, Sparkles, X, Star, History, Trash2, Target, Clock, AlertTriangle, DollarSign, ArrowUpCircle, ArrowDownCircle, Anchor, RefreshCw, ChevronDown, Check, Activity } from "lucide-react";
-import { Input } from "@/components/ui/input";
+import { TrendingUp, TrendingDown, Minus, Info, BarChart3, Lightbulb, Sparkles, X, Star, History, Trash2, Target, Clock, AlertTriangle, DollarSign, ArrowUpCircle, ArrowDownCircle, Anchor, RefreshCw, ChevronDown, Check, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CandlestickChart } from "./candlestick-chart";
+import { CandlestickChart, type RSIOverlay } from "./candlestick-chart";
 import { StockNews } from "./stock-news";
-import { validateSymbol, RateLimiter } from "@/lib/validation";
-import type { StockData } from "@/lib/types";
+import { CompanyFundamentals } from "./company-fundamentals";
+import { EarningsCard } from "./earnings-card";
+import { OptionsChain } from "./options-chain";
+import { RSICard } from "./rsi-card";
+import { SymbolSearch } from "./symbol-search";
+import { validateSymbol, RateLimiter, HISTORY_RANGES, SYMBOL_FORMAT_MESSAGE } from "@/lib/validation";
+import { getTradingCalendar, hasFundamentals, hasOptions } from "@/lib/assets";
+import type { CandlePattern, HistoryInterval, IndicatorResult, LiveQuote, RSIDivergence, StockData, HistoryRange, MarketIndex, OHLCData, PriceLevels } from "@/lib/types";
 import { Spinner } from "@/components/ui/spinner";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useSearchHistory } from "@/hooks/use-search-history";
 import { useWatchlist } from "@/hooks/use-watchlist";
+import { useQuotes } from "@/hooks/use-quotes";
+import { useExchangeRate } from "@/hooks/use-exchange-rate";
+import { useLiveQuote } from "@/hooks/use-live-quote";
+import { describeError, toRequestError } from "@/lib/api-errors";
+import { formatEventDate, formatMoney, isIntradayInterval, toMajorCurrency } from "@/lib/format";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -38,6 +49,17 @@ const AI_MODELS = [
 
 const POPULAR_STOCKS = ["AAPL", "GOOGL", "TSLA", "MSFT", "AMZN", "NVDA"];
 
+const RANGE_OPTIONS: Record<HistoryRange, { short: string; label: string }> = {
+  "1d": { short: "1D", label: "1-Day" },
+  "5d": { short: "5D", label: "5-Day" },
+  "1mo": { short: "1M", label: "1-Month" },
+  "6mo": { short: "6M", label: "6-Month" },
+  ytd: { short: "YTD", label: "Year-to-Date" },
+  "1y": { short: "1Y", label: "1-Year" },
+  "5y": { short: "5Y", label: "5-Year" },
+  max: { short: "Max", label: "All-Time" },
+};
+
 const rateLimiter = new RateLimiter(1000);
 
 
@@ -54,6 +76,85 @@ function formatVolume(volume: number): string {
   return volume.toString();
 }
 
+interface ChartOptions {
+  adjusted: boolean;
+  includePrePost: boolean;
+}
+
+async function requestStockData(stockSymbol: string, stockRange: HistoryRange, options: ChartOptions): Promise<StockData> {
+  const params = new URLSearchParams({
+    range: stockRange,
+    adjusted: String(options.adjusted),
+    includePrePost: String(options.includePrePost),
+  });
+  const response = await fetch(`/api/stock/${encodeURIComponent(stockSymbol)}?${params}`);
+
+  if (!response.ok) {
+    throw await toRequestError(response, "Failed to fetch stock data");
+  }
+
+  return response.json();
+}
+
+const INTRADAY_INTERVAL_MS: Partial<Record<HistoryInterval, number>> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Calendar date at the exchange, e.g. "2026-10-19"
+function exchangeDate(time: number, timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" })
+    .format(time);
+}
+
+// Whether a price seen at time belongs to the candle; daily and monthly candles follow the exchange calendar
+function candleCovers(candle: OHLCData, time: number, interval: HistoryInterval, timezone: string): boolean {
+  const start = Date.parse(candle.timestamp);
+  if (time < start) return false;
+  switch (interval) {
+    case "1d":
+      return exchangeDate(time, timezone) === exchangeDate(start, timezone);
+    case "1wk":
+      return time - start < WEEK_MS;
+    case "1mo":
+      return exchangeDate(time, timezone).slice(0, 7) === exchangeDate(start, timezone).slice(0, 7);
+    default:
+      return time - start < (INTRADAY_INTERVAL_MS[interval] ?? 0);
+  }
+}
+
+// Moves the last regular-session candle to the live price, stretching its high or low if needed.
+// A quote from after that candle closed is left out: until the next candle arrives there is nowhere to put it.
+function withLivePrice(ohlc: OHLCData[], quote: LiveQuote, interval: HistoryInterval, timezone: string): OHLCData[] {
+  const last = ohlc[ohlc.length - 1];
+  if (!last || (last.session && last.session !== "regular")) return ohlc;
+  if (!candleCovers(last, Date.parse(quote.timestamp), interval, timezone)) return ohlc;
+  const price = quote.price;
+  return [
+    ...ohlc.slice(0, -1),
+    { ...last, close: price, high: Math.max(last.high, price), low: Math.min(last.low, price) },
+  ];
+}
+
+// Price and day change shown next to a symbol chip once its quote arrives
+function ChipQuote({ quote }: { quote?: MarketIndex }) {
+  if (!quote) return null;
+  const color = quote.changePercent > 0 ? "text-green-500" : quote.changePercent < 0 ? "text-red-500" : "text-muted-foreground";
+  return (
+    <span className="ml-1.5 font-sans">
+      <span className="text-muted-foreground">{formatMoney(quote.price, quote.currency)}</span>{" "}
+      <span className={color}>
+        {quote.changePercent > 0 ? "+" : ""}
+        {quote.changePercent.toFixed(2)}%
+      </span>
+    </span>
+  );
+}
+
 function getSharpeInterpretation(sharpe: number): {
   label: string;
   color: string;
@@ -87,15 +188,49 @@ function getSharpeInterpretation(sharpe: number): {
   };
 }
 
+type AnalyzerView = "analysis" | "options";
+
 export function StockAnalyzer() {
   const [symbol, setSymbol] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [stockData, setStockData] = useState<StockData | null>(null);
+  const [range, setRange] = useState<HistoryRange>("5d");
+  const [rangeLoading, setRangeLoading] = useState(false);
+  const [adjusted, setAdjusted] = useState(true);
+  const [includePrePost, setIncludePrePost] = useState(false);
+  const [showThb, setShowThb] = useState(false);
+  const [view, setView] = useState<AnalyzerView>("analysis");
 
   // Search history and watchlist hooks
   const { history, addToHistory, clearHistory } = useSearchHistory();
   const { watchlist, addToWatchlist, removeFromWatchlist, isInWatchlist } = useWatchlist();
+  // One batch request prices both the watchlist and recent chips
+  const quotes = useQuotes([
+    ...watchlist.map((item) => item.symbol),
+    ...history.slice(0, 5).map((item) => item.symbol),
+  ]);
+
+  // Optional THB display; FX pairs are ratios and THB listings need no conversion
+  const listingCurrency = toMajorCurrency(stockData?.currency ?? "USD");
+  const canShowThb = !!stockData && stockData.assetType !== "currency" && listingCurrency.currency !== "THB";
+  const thbRate = useExchangeRate(showThb && canShowThb ? listingCurrency.currency : null);
+  // Stale results stay frozen at their fetchedAt so the badge keeps telling the truth
+  const liveQuote = useLiveQuote(stockData && !stockData.stale ? stockData.symbol : null);
+  const live = liveQuote && liveQuote.symbol === stockData?.symbol ? liveQuote : null;
+  const price = live?.price ?? stockData?.currentPrice ?? 0;
+  const priceChange = live?.change ?? stockData?.change ?? 0;
+  const priceChangePercent = live?.changePercent ?? stockData?.changePercent ?? 0;
+  // A new array only when a tick lands, so the chart's memos don't rerun on every render
+  const ohlc = stockData?.ohlc;
+  const interval = stockData?.interval;
+  const timezone = stockData?.timezone;
+  const chartData = useMemo(
+    () => (ohlc && interval && timezone && live ? withLivePrice(ohlc, live, interval, timezone) : ohlc ?? []),
+    [ohlc, interval, timezone, live]
+  );
+  // Falls back to the analysis view for assets without listed options
+  const showOptions = !!stockData && hasOptions(stockData.assetType);
 
   // AI Analysis states
   const [aiLoading, setAiLoading] = useState(false);
@@ -127,33 +262,76 @@ export function StockAnalyzer() {
   } | null>(null);
   const [selectedModel, setSelectedModel] = useState(AI_MODELS[0]); // Default to Gemini 2.5 Flash
 
-  // Technical indicators state
-  const [rsiData, setRsiData] = useState<{
-    value: number;
-    signal: "Overbought" | "Bullish" | "Neutral" | "Bearish" | "Oversold";
-  } | null>(null);
-  const [rsiLoading, setRsiLoading] = useState(false);
+  // Technical indicators state; the RSI card and the chart's RSI panel share one period
+  const [rsiPeriod, setRsiPeriod] = useState(14);
+  const [priceLevels, setPriceLevels] = useState<PriceLevels | null>(null);
+  const [candlePatterns, setCandlePatterns] = useState<CandlePattern[]>([]);
+  const [rsiOverlay, setRsiOverlay] = useState<RSIOverlay | null>(null);
 
-  // Fetch RSI when stock data changes
+  // Fetch support/resistance levels and candlestick patterns when stock data changes
   useEffect(() => {
-    if (stockData?.symbol) {
-      const fetchIndicators = async () => {
-        setRsiLoading(true);
-        try {
-          const response = await fetch(`/api/stock/${encodeURIComponent(stockData.symbol)}/indicators`);
-          if (response.ok) {
-            const data = await response.json();
-            setRsiData(data.rsi);
+    if (!stockData?.symbol) return;
+    // A slower response for the previous symbol must not land on this one's chart
+    let cancelled = false;
+
+    const fetchIndicators = async () => {
+      // Another symbol's levels would draw at meaningless prices
+      setPriceLevels(null);
+      setCandlePatterns([]);
+      try {
+        const response = await fetch(
+          `/api/stock/${encodeURIComponent(stockData.symbol)}/indicators?adjusted=${stockData.adjusted}&levels=true&patterns=true`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          if (!cancelled) {
+            setPriceLevels(data.levels ?? null);
+            setCandlePatterns(data.patterns ?? []);
           }
-        } catch (err) {
-          console.error("Failed to fetch indicators:", err);
-        } finally {
-          setRsiLoading(false);
         }
-      };
-      fetchIndicators();
-    }
-  }, [stockData?.symbol]);
+      } catch (err) {
+        console.error("Failed to fetch indicators:", err);
+      }
+    };
+    fetchIndicators();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stockData?.symbol, stockData?.adjusted]);
+
+  // Fetch the chart's RSI line and divergences; the endpoint reads enough extra history to warm RSI up
+  useEffect(() => {
+    if (!stockData?.symbol) return;
+    let cancelled = false;
+
+    const fetchRSI = async () => {
+      setRsiOverlay(null);
+      try {
+        const response = await fetch(
+          `/api/stock/${encodeURIComponent(stockData.symbol)}/indicators?adjusted=${stockData.adjusted}&set=rsi:${rsiPeriod}&series=true&divergences=true&rsiPeriod=${rsiPeriod}`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          if (!cancelled) {
+            const line = (data.indicators as IndicatorResult[]).find((indicator) => indicator.name === "rsi");
+            setRsiOverlay({
+              period: rsiPeriod,
+              series: line?.series ?? [],
+              divergences: (data.divergences as RSIDivergence[] | undefined) ?? [],
+            });
+          }
+        }
+      } catch (err) {
+        console.error("Failed to fetch RSI series:", err);
+      }
+    };
+    fetchRSI();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stockData?.symbol, stockData?.adjusted, rsiPeriod]);
 
   // Get score color based on value
   const getScoreColor = (score: number) => {
@@ -189,13 +367,15 @@ export function StockAnalyzer() {
             volume: stockData.volume,
             sharpeRatio: stockData.sharpeRatio,
             trend: stockData.trend,
+            range: stockData.range,
+            assetType: stockData.assetType,
+            currency: stockData.currency,
           },
         }),
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to get AI analysis");
+        throw await toRequestError(response, "Failed to get AI analysis");
       }
 
       const data = await response.json();
@@ -206,16 +386,20 @@ export function StockAnalyzer() {
         expiresIn: data.expiresIn,
       });
     } catch (err) {
-      setAiError(err instanceof Error ? err.message : "Unable to get AI analysis");
+      setAiError(describeError(err, "AI analysis"));
     } finally {
       setAiLoading(false);
     }
   }, [stockData, selectedModel]);
 
+  // Bumped by every search and chart reload; a response that is no longer the latest is dropped
+  // so a slow earlier request can't overwrite the chart and stats of a newer one
+  const stockRequest = useRef(0);
+
   const fetchStockData = useCallback(async (searchSymbol: string) => {
     const validSymbol = validateSymbol(searchSymbol);
     if (!validSymbol) {
-      setError("Invalid symbol. Please enter 1-10 alphanumeric characters.");
+      setError(`Invalid symbol. ${SYMBOL_FORMAT_MESSAGE}.`);
       return;
     }
 
@@ -224,27 +408,72 @@ export function StockAnalyzer() {
       return;
     }
 
+    const request = ++stockRequest.current;
     setLoading(true);
     setError(null);
 
     try {
-      const response = await fetch(`/api/stock/${encodeURIComponent(validSymbol)}`);
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to fetch stock data");
-      }
-
-      const data: StockData = await response.json();
+      const data = await requestStockData(validSymbol, range, { adjusted, includePrePost });
+      if (request !== stockRequest.current) return;
       setStockData(data);
       // Add to search history on successful fetch
       addToHistory(data.symbol, data.name);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unable to fetch data. Please try again.");
+      if (request !== stockRequest.current) return;
+      setError(describeError(err, "market data"));
+    } finally {
+      // The latest request clears both spinners, whichever kind started them
+      if (request === stockRequest.current) {
+        setLoading(false);
+        setRangeLoading(false);
+      }
+    }
+  }, [addToHistory, range, adjusted, includePrePost]);
+
+  // Switching range, adjustment or extended hours reloads the chart in place instead of blanking the whole view
+  const reloadChart = async (newRange: HistoryRange, options: ChartOptions) => {
+    if (
+      !stockData ||
+      (newRange === stockData.range &&
+        options.adjusted === stockData.adjusted &&
+        options.includePrePost === stockData.includePrePost)
+    ) {
+      return;
+    }
+
+    const request = ++stockRequest.current;
+    setRangeLoading(true);
+    setError(null);
+
+    try {
+      const data = await requestStockData(stockData.symbol, newRange, options);
+      if (request !== stockRequest.current) return;
+      setStockData(data);
+    } catch (err) {
+      if (request !== stockRequest.current) return;
+      setError(describeError(err, "market data"));
     } finally {
-      setLoading(false);
+      if (request === stockRequest.current) {
+        setLoading(false);
+        setRangeLoading(false);
+      }
     }
-  }, [addToHistory]);
+  };
+
+  const handleRangeChange = (newRange: HistoryRange) => {
+    setRange(newRange);
+    reloadChart(newRange, { adjusted, includePrePost });
+  };
+
+  const handleAdjustedToggle = () => {
+    setAdjusted(!adjusted);
+    reloadChart(range, { adjusted: !adjusted, includePrePost });
+  };
+
+  const handlePrePostToggle = () => {
+    setIncludePrePost(!includePrePost);
+    reloadChart(range, { adjusted, includePrePost: !includePrePost });
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -258,6 +487,15 @@ export function StockAnalyzer() {
     fetchStockData(stock);
   };
 
+  // Formats a price from the quote currency, converted to baht when the THB toggle is on
+  const money = (value: number): string => {
+    const decimals = stockData?.assetType === "currency" ? 4 : undefined;
+    if (showThb && canShowThb && thbRate !== null) {
+      return formatMoney((value / listingCurrency.divisor) * thbRate, "THB", decimals);
+    }
+    return formatMoney(value, stockData?.currency ?? "USD", decimals);
+  };
+
   const TrendIcon = stockData?.trend === "bullish" ? TrendingUp : stockData?.trend === "bearish" ? TrendingDown : Minus;
   const sharpeInfo = stockData ? getSharpeInterpretation(stockData.sharpeRatio) : null;
 
@@ -267,17 +505,7 @@ export function StockAnalyzer() {
       <Card className="bg-card/50 backdrop-blur border-border/50">
         <CardContent className="pt-6">
           <form onSubmit={handleSubmit} className="flex gap-3">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                type="text"
-                placeholder="Enter stock symbol (e.g., AAPL)"
-                value={symbol}
-                onChange={(e) => setSymbol(e.target.value.toUpperCase())}
-                className="pl-10 font-mono bg-background/50"
-                maxLength={10}
-              />
-            </div>
+            <SymbolSearch value={symbol} onChange={setSymbol} onSelect={handleQuickSelect} />
             <Button type="submit" disabled={loading || !symbol.trim()}>
               {loading ? <Spinner size="sm" /> : "Analyze"}
             </Button>
@@ -300,6 +528,7 @@ export function StockAnalyzer() {
                   className="font-mono text-xs"
                 >
                   {item.symbol}
+                  <ChipQuote quote={quotes[item.symbol]} />
                 </Button>
               ))}
               <Button
@@ -330,6 +559,7 @@ export function StockAnalyzer() {
                   className="font-mono text-xs border-yellow-500/30 hover:border-yellow-500/50"
                 >
                   {item.symbol}
+                  <ChipQuote quote={quotes[item.symbol]} />
                 </Button>
               ))}
             </div>
@@ -428,6 +658,29 @@ export function StockAnalyzer() {
                         <TrendIcon className="h-3 w-3 mr-1" />
                         {stockData.trend.charAt(0).toUpperCase() + stockData.trend.slice(1)}
                       </Badge>
+                      {stockData.assetType !== "equity" && (
+                        <Badge variant="outline" className="text-muted-foreground capitalize">
+                          {stockData.assetType}
+                          {getTradingCalendar(stockData.assetType).session !== "exchange" &&
+                            ` · ${getTradingCalendar(stockData.assetType).session}`}
+                        </Badge>
+                      )}
+                      {stockData.stale && (
+                        <Badge
+                          variant="outline"
+                          className="border-amber-500/30 text-amber-500"
+                          title="Market data providers are unavailable; showing the last good response"
+                        >
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          Stale · as of{" "}
+                          {new Date(stockData.fetchedAt).toLocaleString([], {
+                            month: "short",
+                            day: "numeric",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                        </Badge>
+                      )}
 
                       {/* AI Model Selector + Insight Button */}
                       <div className="flex items-center gap-1 ml-2">
@@ -492,15 +745,40 @@ export function StockAnalyzer() {
                     <p className="text-muted-foreground text-sm mt-1">{stockData.name}</p>
                   </div>
                   <div className="text-right">
-                    <p className="text-3xl font-bold font-mono">${stockData.currentPrice.toFixed(2)}</p>
+                    <div className="flex items-center justify-end gap-2">
+                      {canShowThb && (
+                        <Button
+                          variant={showThb ? "secondary" : "ghost"}
+                          size="sm"
+                          onClick={() => setShowThb(!showThb)}
+                          className="h-7 px-2 text-xs font-mono"
+                          title={`Show prices in Thai baht instead of ${listingCurrency.currency}`}
+                        >
+                          ฿ THB
+                        </Button>
+                      )}
+                      <p className="text-3xl font-bold font-mono">{money(price)}</p>
+                    </div>
                     <p
-                      className={`text-sm font-mono ${stockData.change >= 0 ? "text-[#22c55e]" : "text-[#ef4444]"
+                      className={`text-sm font-mono ${priceChange >= 0 ? "text-[#22c55e]" : "text-[#ef4444]"
                         }`}
                     >
-                      {stockData.change >= 0 ? "+" : ""}
-                      {stockData.change.toFixed(2)} ({stockData.changePercent >= 0 ? "+" : ""}
-                      {stockData.changePercent.toFixed(2)}%)
+                      {priceChange >= 0 ? "+" : ""}
+                      {money(priceChange)} ({priceChangePercent >= 0 ? "+" : ""}
+                      {priceChangePercent.toFixed(2)}%)
                     </p>
+                    {stockData.extendedHours && (
+                      <p className="text-xs font-mono text-muted-foreground mt-0.5">
+                        {stockData.extendedHours.session === "pre" ? "Pre-market" : "After hours"}:{" "}
+                        <span className="text-foreground">{money(stockData.extendedHours.price)}</span>{" "}
+                        <span
+                          className={stockData.extendedHours.change >= 0 ? "text-[#22c55e]" : "text-[#ef4444]"}
+                        >
+                          {stockData.extendedHours.changePercent >= 0 ? "+" : ""}
+                          {stockData.extendedHours.changePercent.toFixed(2)}%
+                        </span>
+                      </p>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -658,7 +936,7 @@ export function StockAnalyzer() {
                                 <span className="text-xs text-muted-foreground">Entry Price:</span>
                                 <span className="text-sm font-mono font-medium text-foreground">
                                   {aiAnalysis.bottomFishing.targetPrice
-                                    ? `$${aiAnalysis.bottomFishing.targetPrice.toFixed(2)}`
+                                    ? money(aiAnalysis.bottomFishing.targetPrice)
                                     : "N/A"}
                                 </span>
                               </div>
@@ -687,7 +965,7 @@ export function StockAnalyzer() {
                               <div className="text-center p-3 rounded-lg bg-green-500/10">
                                 <p className="text-xs text-muted-foreground mb-1">Target Price</p>
                                 <p className="text-lg font-bold font-mono text-green-500">
-                                  ${aiAnalysis.priceTarget.targetPrice.toFixed(2)}
+                                  {money(aiAnalysis.priceTarget.targetPrice)}
                                 </p>
                               </div>
                               <div className="text-center p-3 rounded-lg bg-green-500/10">
@@ -732,53 +1010,225 @@ export function StockAnalyzer() {
               )}
             </AnimatePresence>
 
-            {/* RSI Indicator Section */}
-            <Card className="bg-card/50 backdrop-blur border-border/50">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-lg">
-                  <Activity className="h-5 w-5" />
-                  RSI (14-Day)
-                  {rsiData && (
-                    <Badge
-                      variant="outline"
-                      className={`ml-2 ${
-                        rsiData.signal === "Overbought" ? "border-red-500 text-red-500" :
-                        rsiData.signal === "Oversold" ? "border-green-500 text-green-500" :
-                        rsiData.signal === "Bullish" ? "border-green-500/70 text-green-500" :
-                        rsiData.signal === "Bearish" ? "border-red-500/70 text-red-500" :
-                        "border-yellow-500 text-yellow-500"
-                      }`}
-                    >
-                      {rsiData.signal}
-                    </Badge>
-                  )}
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {rsiLoading ? (
-                  <div className="flex items-center justify-center py-8">
-                    <Spinner size="md" />
-                  </div>
-                ) : rsiData ? (
+            {/* Analysis and options views */}
+            <Tabs value={showOptions ? view : "analysis"} onValueChange={(value) => setView(value as AnalyzerView)}>
+              <TabsList>
+                <TabsTrigger value="analysis">Analysis</TabsTrigger>
+                {showOptions && <TabsTrigger value="options">Options</TabsTrigger>}
+              </TabsList>
+
+              <TabsContent value="analysis" className="space-y-6">
+                {/* RSI on daily, weekly and monthly candles */}
+                <RSICard
+                  symbol={stockData.symbol}
+                  adjusted={stockData.adjusted}
+                  period={rsiPeriod}
+                  onPeriodChange={setRsiPeriod}
+                />
+
+                {/* Candlestick Chart */}
+                <Card className="bg-card/50 backdrop-blur border-border/50">
+                  <CardHeader>
+                    <div className="flex items-center justify-between flex-wrap gap-2">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <BarChart3 className="h-5 w-5" />
+                        {RANGE_OPTIONS[stockData.range].label} Price Chart
+                      </CardTitle>
+                      <div className="flex items-center gap-1">
+                        {HISTORY_RANGES.map((option) => (
+                          <Button
+                            key={option}
+                            variant={range === option ? "secondary" : "ghost"}
+                            size="sm"
+                            onClick={() => handleRangeChange(option)}
+                            disabled={rangeLoading}
+                            className="h-7 px-2 text-xs font-mono"
+                          >
+                            {RANGE_OPTIONS[option].short}
+                          </Button>
+                        ))}
+                        <Button
+                          variant={adjusted ? "secondary" : "ghost"}
+                          size="sm"
+                          onClick={handleAdjustedToggle}
+                          disabled={rangeLoading}
+                          className="h-7 px-2 text-xs ml-1"
+                          title="Adjust prices for splits and dividends"
+                        >
+                          Adj
+                        </Button>
+                        {isIntradayInterval(stockData.interval) && (
+                          <Button
+                            variant={includePrePost ? "secondary" : "ghost"}
+                            size="sm"
+                            onClick={handlePrePostToggle}
+                            disabled={rangeLoading}
+                            className="h-7 px-2 text-xs"
+                            title="Include pre-market and after-hours candles"
+                          >
+                            Ext
+                          </Button>
+                        )}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 px-2 text-xs ml-1"
+                              title="Download this range as CSV or JSON"
+                            >
+                              <Download className="h-3.5 w-3.5" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Download {RANGE_OPTIONS[stockData.range].label} history</DropdownMenuLabel>
+                            <DropdownMenuSeparator />
+                            {(["csv", "json"] as const).map((format) => (
+                              <DropdownMenuItem key={format} asChild className="cursor-pointer">
+                                <a
+                                  href={`/api/stock/${encodeURIComponent(stockData.symbol)}/history.${format}?range=${stockData.range}&interval=${stockData.interval}`}
+                                  download
+                                >
+                                  {format === "csv" ? "CSV (spreadsheets)" : "JSON"}
+                                </a>
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {rangeLoading ? (
+                      <div className="flex items-center justify-center h-[250px]">
+                        <Spinner size="md" />
+                      </div>
+                    ) : (
+                      <CandlestickChart
+                        data={chartData}
+                        timezone={stockData.timezone}
+                        range={stockData.range}
+                        interval={stockData.interval}
+                        formatPrice={money}
+                        levels={priceLevels}
+                        patterns={candlePatterns}
+                        rsi={rsiOverlay}
+                      />
+                    )}
+                    {stockData.corporateActions.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+                        <span className="text-muted-foreground">Corporate actions:</span>
+                        {stockData.corporateActions.map((action) => (
+                          <Badge key={`${action.type}-${action.timestamp}`} variant="outline" className="font-mono">
+                            {action.type === "split"
+                              ? `Split ${action.ratio}`
+                              : `Dividend ${money(action.amount ?? 0)}`}{" "}
+                            · {formatEventDate(action.timestamp, stockData.timezone)}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Stock News Section */}
+                {/* Indices, FX, futures and crypto have no company news */}
+                {hasFundamentals(stockData.assetType) && <StockNews symbol={stockData.symbol} />}
+
+                {/* Metrics Grid */}
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  <Card className="bg-card/50 backdrop-blur border-border/50">
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-muted-foreground">Day High</p>
+                      <p className="text-xl font-bold font-mono text-[#22c55e]">
+                        {money(stockData.dayHigh)}
+                      </p>
+                    </CardContent>
+                  </Card>
+                  <Card className="bg-card/50 backdrop-blur border-border/50">
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-muted-foreground">Day Low</p>
+                      <p className="text-xl font-bold font-mono text-[#ef4444]">
+                        {money(stockData.dayLow)}
+                      </p>
+                    </CardContent>
+                  </Card>
+                  <Card className="bg-card/50 backdrop-blur border-border/50">
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-muted-foreground">Volume</p>
+                      <p className="text-xl font-bold font-mono">
+                        {/* FX pairs and indices report no volume */}
+                        {stockData.volume > 0 ? formatVolume(stockData.volume) : "—"}
+                      </p>
+                    </CardContent>
+                  </Card>
+                  <Card className="bg-card/50 backdrop-blur border-border/50">
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-muted-foreground">52W High</p>
+                      <p className="text-xl font-bold font-mono text-[#22c55e]">
+                        {money(stockData.fiftyTwoWeekHigh)}
+                      </p>
+                    </CardContent>
+                  </Card>
+                  <Card className="bg-card/50 backdrop-blur border-border/50">
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-muted-foreground">52W Low</p>
+                      <p className="text-xl font-bold font-mono text-[#ef4444]">
+                        {money(stockData.fiftyTwoWeekLow)}
+                      </p>
+                    </CardContent>
+                  </Card>
+                  <Card className="bg-card/50 backdrop-blur border-border/50">
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-muted-foreground">52W Range</p>
+                      <div className="mt-2">
+                        <div className="h-2 bg-muted/20 rounded-full overflow-hidden relative">
+                          <div
+                            className="absolute h-full bg-gradient-to-r from-[#ef4444] via-[#eab308] to-[#22c55e] rounded-full"
+                            style={{ width: "100%" }}
+                          />
+                          <div
+                            className="absolute top-1/2 -translate-y-1/2 w-2 h-4 bg-white rounded-full border-2 border-foreground"
+                            style={{
+                              left: `${Math.min(Math.max(((stockData.currentPrice - stockData.fiftyTwoWeekLow) / (stockData.fiftyTwoWeekHigh - stockData.fiftyTwoWeekLow)) * 100, 0), 100)}%`,
+                              transform: "translateX(-50%) translateY(-50%)",
+                            }}
+                          />
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {/* Company Fundamentals and Earnings */}
+                {hasFundamentals(stockData.assetType) && (
                   <>
+                    <CompanyFundamentals symbol={stockData.symbol} currency={stockData.currency} />
+                    <EarningsCard symbol={stockData.symbol} currency={stockData.currency} />
+                  </>
+                )}
+
+                {/* Sharpe Ratio Section */}
+                <Card className="bg-card/50 backdrop-blur border-border/50">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <TrendingUp className="h-5 w-5" />
+                      {RANGE_OPTIONS[stockData.range].label} Sharpe Ratio
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className={`text-4xl font-bold font-mono ${
-                          rsiData.value >= 70 ? "text-red-500" :
-                          rsiData.value <= 30 ? "text-green-500" :
-                          rsiData.value >= 60 ? "text-green-500/80" :
-                          rsiData.value <= 40 ? "text-red-500/80" :
-                          "text-yellow-500"
-                        }`}>
-                          {rsiData.value.toFixed(1)}
-                        </p>
-                        <p className="text-sm text-muted-foreground mt-1">
-                          {rsiData.value >= 70 ? "Consider selling - stock may be overvalued" :
-                           rsiData.value <= 30 ? "Consider buying - stock may be undervalued" :
-                           rsiData.value >= 60 ? "Bullish momentum" :
-                           rsiData.value <= 40 ? "Bearish momentum" :
-                           "Neutral territory"}
+                        <p className="text-4xl font-bold font-mono" style={{ color: sharpeInfo?.color }}>
+                          {stockData.sharpeRatio.toFixed(2)}
                         </p>
+                        <Badge
+                          variant="outline"
+                          className="mt-2"
+                          style={{ borderColor: sharpeInfo?.color, color: sharpeInfo?.color }}
+                        >
+                          {sharpeInfo?.label}
+                        </Badge>
                       </div>
                       <div className="w-32 h-32">
                         <svg viewBox="0 0 100 100" className="w-full h-full -rotate-90">
@@ -796,233 +1246,74 @@ export function StockAnalyzer() {
                             cy="50"
                             r="40"
                             fill="none"
-                            stroke={
-                              rsiData.value >= 70 ? "#ef4444" :
-                              rsiData.value <= 30 ? "#22c55e" :
-                              rsiData.value >= 60 ? "#22c55e" :
-                              rsiData.value <= 40 ? "#ef4444" :
-                              "#eab308"
-                            }
+                            stroke={sharpeInfo?.color}
                             strokeWidth="8"
                             strokeLinecap="round"
-                            strokeDasharray={`${(rsiData.value / 100) * 251.2} 251.2`}
+                            strokeDasharray={`${Math.min(Math.max((stockData.sharpeRatio + 1) / 3, 0), 1) * 251.2} 251.2`}
                             initial={{ strokeDasharray: "0 251.2" }}
-                            animate={{ strokeDasharray: `${(rsiData.value / 100) * 251.2} 251.2` }}
+                            animate={{ strokeDasharray: `${Math.min(Math.max((stockData.sharpeRatio + 1) / 3, 0), 1) * 251.2} 251.2` }}
                             transition={{ duration: 1, ease: "easeOut" }}
                           />
                         </svg>
                       </div>
                     </div>
 
-                    {/* RSI Scale */}
+                    {/* Progress Bar */}
                     <div className="space-y-2">
                       <div className="flex justify-between text-xs text-muted-foreground font-mono">
+                        <span>-1.0</span>
                         <span>0</span>
-                        <span className="text-green-500">30</span>
-                        <span>50</span>
-                        <span className="text-red-500">70</span>
-                        <span>100</span>
+                        <span>0.5</span>
+                        <span>1.0</span>
+                        <span>2.0+</span>
                       </div>
-                      <div className="h-2 bg-muted/20 rounded-full overflow-hidden relative">
-                        <div className="absolute inset-0 flex">
-                          <div className="w-[30%] bg-green-500/30" />
-                          <div className="w-[40%] bg-yellow-500/30" />
-                          <div className="w-[30%] bg-red-500/30" />
-                        </div>
+                      <div className="h-2 bg-muted/20 rounded-full overflow-hidden">
                         <motion.div
-                          className="absolute top-0 h-full w-1 bg-white rounded-full shadow-lg"
-                          initial={{ left: "0%" }}
-                          animate={{ left: `${rsiData.value}%` }}
+                          className="h-full rounded-full"
+                          style={{ backgroundColor: sharpeInfo?.color }}
+                          initial={{ width: 0 }}
+                          animate={{
+                            width: `${Math.min(Math.max(((stockData.sharpeRatio + 1) / 3) * 100, 0), 100)}%`,
+                          }}
                           transition={{ duration: 1, ease: "easeOut" }}
-                          style={{ transform: "translateX(-50%)" }}
                         />
                       </div>
-                      <div className="flex justify-between text-xs">
-                        <span className="text-green-500">Oversold</span>
-                        <span className="text-yellow-500">Neutral</span>
-                        <span className="text-red-500">Overbought</span>
-                      </div>
                     </div>
-                  </>
-                ) : (
-                  <p className="text-sm text-muted-foreground text-center py-4">
-                    RSI data unavailable
-                  </p>
-                )}
-              </CardContent>
-            </Card>
 
-            {/* Candlestick Chart */}
-            <Card className="bg-card/50 backdrop-blur border-border/50">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-lg">
-                  <BarChart3 className="h-5 w-5" />
-                  5-Day Price Chart
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <CandlestickChart data={stockData.ohlc} />
-              </CardContent>
-            </Card>
+                    <p className="text-sm text-muted-foreground">{sharpeInfo?.description}</p>
+                  </CardContent>
+                </Card>
 
-            {/* Stock News Section */}
-            <StockNews symbol={stockData.symbol} />
-
-            {/* Metrics Grid */}
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              <Card className="bg-card/50 backdrop-blur border-border/50">
-                <CardContent className="pt-6">
-                  <p className="text-sm text-muted-foreground">Day High</p>
-                  <p className="text-xl font-bold font-mono text-[#22c55e]">
-                    ${stockData.dayHigh.toFixed(2)}
-                  </p>
-                </CardContent>
-              </Card>
-              <Card className="bg-card/50 backdrop-blur border-border/50">
-                <CardContent className="pt-6">
-                  <p className="text-sm text-muted-foreground">Day Low</p>
-                  <p className="text-xl font-bold font-mono text-[#ef4444]">
-                    ${stockData.dayLow.toFixed(2)}
-                  </p>
-                </CardContent>
-              </Card>
-              <Card className="bg-card/50 backdrop-blur border-border/50">
-                <CardContent className="pt-6">
-                  <p className="text-sm text-muted-foreground">Volume</p>
-                  <p className="text-xl font-bold font-mono">{formatVolume(stockData.volume)}</p>
-                </CardContent>
-              </Card>
-              <Card className="bg-card/50 backdrop-blur border-border/50">
-                <CardContent className="pt-6">
-                  <p className="text-sm text-muted-foreground">52W High</p>
-                  <p className="text-xl font-bold font-mono text-[#22c55e]">
-                    ${stockData.fiftyTwoWeekHigh.toFixed(2)}
-                  </p>
-                </CardContent>
-              </Card>
-              <Card className="bg-card/50 backdrop-blur border-border/50">
-                <CardContent className="pt-6">
-                  <p className="text-sm text-muted-foreground">52W Low</p>
-                  <p className="text-xl font-bold font-mono text-[#ef4444]">
-                    ${stockData.fiftyTwoWeekLow.toFixed(2)}
-                  </p>
-                </CardContent>
-              </Card>
-              <Card className="bg-card/50 backdrop-blur border-border/50">
-                <CardContent className="pt-6">
-                  <p className="text-sm text-muted-foreground">52W Range</p>
-                  <div className="mt-2">
-                    <div className="h-2 bg-muted/20 rounded-full overflow-hidden relative">
-                      <div
-                        className="absolute h-full bg-gradient-to-r from-[#ef4444] via-[#eab308] to-[#22c55e] rounded-full"
-                        style={{ width: "100%" }}
-                      />
-                      <div
-                        className="absolute top-1/2 -translate-y-1/2 w-2 h-4 bg-white rounded-full border-2 border-foreground"
-                        style={{
-                          left: `${Math.min(Math.max(((stockData.currentPrice - stockData.fiftyTwoWeekLow) / (stockData.fiftyTwoWeekHigh - stockData.fiftyTwoWeekLow)) * 100, 0), 100)}%`,
-                          transform: "translateX(-50%) translateY(-50%)",
-                        }}
-                      />
+                {/* Info Section */}
+                <Card className="bg-muted/20 border-border/50">
+                  <CardContent className="pt-6">
+                    <div className="flex items-start gap-3">
+                      <Info className="h-5 w-5 text-[#3b82f6] mt-0.5 flex-shrink-0" />
+                      <div className="text-sm text-muted-foreground">
+                        <p className="font-medium text-foreground mb-1">About Sharpe Ratio</p>
+                        <p>
+                          The Sharpe Ratio measures risk-adjusted return. It&apos;s calculated as:
+                          (Average Return - Risk Free Rate) / Standard Deviation &times; &radic;252.
+                          A higher ratio indicates better risk-adjusted performance. Short ranges
+                          give a short-term trend indicator, longer ranges a more stable one.
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-
-            {/* Sharpe Ratio Section */}
-            <Card className="bg-card/50 backdrop-blur border-border/50">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-lg">
-                  <TrendingUp className="h-5 w-5" />
-                  5-Day Sharpe Ratio
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-4xl font-bold font-mono" style={{ color: sharpeInfo?.color }}>
-                      {stockData.sharpeRatio.toFixed(2)}
-                    </p>
-                    <Badge
-                      variant="outline"
-                      className="mt-2"
-                      style={{ borderColor: sharpeInfo?.color, color: sharpeInfo?.color }}
-                    >
-                      {sharpeInfo?.label}
-                    </Badge>
-                  </div>
-                  <div className="w-32 h-32">
-                    <svg viewBox="0 0 100 100" className="w-full h-full -rotate-90">
-                      <circle
-                        cx="50"
-                        cy="50"
-                        r="40"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="8"
-                        className="text-muted/20"
-                      />
-                      <motion.circle
-                        cx="50"
-                        cy="50"
-                        r="40"
-                        fill="none"
-                        stroke={sharpeInfo?.color}
-                        strokeWidth="8"
-                        strokeLinecap="round"
-                        strokeDasharray={`${Math.min(Math.max((stockData.sharpeRatio + 1) / 3, 0), 1) * 251.2} 251.2`}
-                        initial={{ strokeDasharray: "0 251.2" }}
-                        animate={{ strokeDasharray: `${Math.min(Math.max((stockData.sharpeRatio + 1) / 3, 0), 1) * 251.2} 251.2` }}
-                        transition={{ duration: 1, ease: "easeOut" }}
-                      />
-                    </svg>
-                  </div>
-                </div>
+                  </CardContent>
+                </Card>
+              </TabsContent>
 
-                {/* Progress Bar */}
-                <div className="space-y-2">
-                  <div className="flex justify-between text-xs text-muted-foreground font-mono">
-                    <span>-1.0</span>
-                    <span>0</span>
-                    <span>0.5</span>
-                    <span>1.0</span>
-                    <span>2.0+</span>
-                  </div>
-                  <div className="h-2 bg-muted/20 rounded-full overflow-hidden">
-                    <motion.div
-                      className="h-full rounded-full"
-                      style={{ backgroundColor: sharpeInfo?.color }}
-                      initial={{ width: 0 }}
-                      animate={{
-                        width: `${Math.min(Math.max(((stockData.sharpeRatio + 1) / 3) * 100, 0), 100)}%`,
-                      }}
-                      transition={{ duration: 1, ease: "easeOut" }}
-                    />
-                  </div>
-                </div>
-
-                <p className="text-sm text-muted-foreground">{sharpeInfo?.description}</p>
-              </CardContent>
-            </Card>
-
-            {/* Info Section */}
-            <Card className="bg-muted/20 border-border/50">
-              <CardContent className="pt-6">
-                <div className="flex items-start gap-3">
-                  <Info className="h-5 w-5 text-[#3b82f6] mt-0.5 flex-shrink-0" />
-                  <div className="text-sm text-muted-foreground">
-                    <p className="font-medium text-foreground mb-1">About Sharpe Ratio</p>
-                    <p>
-                      The Sharpe Ratio measures risk-adjusted return. It&apos;s calculated as:
-                      (Average Return - Risk Free Rate) / Standard Deviation &times; &radic;252.
-                      A higher ratio indicates better risk-adjusted performance. The 5-day calculation
-                      provides a short-term trend indicator.
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+              {showOptions && (
+                <TabsContent value="options">
+                  <OptionsChain
+                    key={stockData.symbol}
+                    symbol={stockData.symbol}
+                    currentPrice={stockData.currentPrice}
+                    currency={stockData.currency}
+                  />
+                </TabsContent>
+              )}
+            </Tabs>
           </motion.div>
         )}
       </AnimatePresence>
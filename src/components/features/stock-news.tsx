@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Spinner } from "@/components/ui/spinner";
+import { describeError, toRequestError } from "@/lib/api-errors";
 import type { NewsItem } from "@/lib/types";
 
 interface StockNewsProps {
@@ -29,15 +30,14 @@ export function StockNews({ symbol }: StockNewsProps) {
       const response = await fetch(`/api/stock/${encodeURIComponent(symbol)}/news`);
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to fetch news");
+        throw await toRequestError(response, "Failed to fetch news");
       }
 
       const data = await response.json();
       setNews(data.news || []);
       setIsCached(data.cached || false);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unable to fetch news");
+      setError(describeError(err, "news"));
     } finally {
       setLoading(false);
     }
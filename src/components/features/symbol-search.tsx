@@ -0,0 +1,142 @@
+"use client";
+
+import { useState, useId } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import { useSymbolSearch } from "@/hooks/use-symbol-search";
+import type { AssetType } from "@/lib/types";
+
+interface SymbolSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (symbol: string) => void;
+}
+
+const ASSET_LABELS: Record<AssetType, string> = {
+  equity: "Stock",
+  etf: "ETF",
+  index: "Index",
+  currency: "FX",
+  crypto: "Crypto",
+  future: "Future",
+  mutualfund: "Fund",
+  other: "Other",
+};
+
+/**
+ * Ticker input with a keyboard-navigable suggestions dropdown.
+ * Enter picks the highlighted suggestion; with none highlighted it submits the enclosing form.
+ */
+export function SymbolSearch({ value, onChange, onSelect }: SymbolSearchProps) {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const { results, loading } = useSymbolSearch(value);
+  const listId = useId();
+
+  const showList = open && value.trim().length > 0 && results.length > 0;
+  // Results can shrink under the cursor, so clamp instead of resetting in an effect
+  const active = highlighted < results.length ? highlighted : -1;
+
+  const select = (symbol: string) => {
+    setOpen(false);
+    setHighlighted(-1);
+    onSelect(symbol);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showList) {
+      if (e.key === "ArrowDown" && results.length > 0) {
+        setOpen(true);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setHighlighted((active + 1) % results.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setHighlighted(active <= 0 ? results.length - 1 : active - 1);
+        break;
+      case "Enter":
+        if (active >= 0) {
+          e.preventDefault();
+          select(results[active].symbol);
+        } else {
+          setOpen(false);
+        }
+        break;
+      case "Escape":
+        setOpen(false);
+        setHighlighted(-1);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="text"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={active >= 0 ? `${listId}-${active}` : undefined}
+        placeholder="Search symbol or company (e.g., AAPL, Apple)"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value.toUpperCase());
+          setOpen(true);
+          setHighlighted(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="pl-10 pr-9 font-mono bg-background/50"
+        maxLength={40}
+        autoComplete="off"
+      />
+      {loading && (
+        <div className="absolute right-3 top-1/2 -translate-y-1/2">
+          <Spinner size="sm" />
+        </div>
+      )}
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto rounded-md border border-border bg-card shadow-xl py-1"
+        >
+          {results.map((match, i) => (
+            <li
+              key={match.symbol}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === active}
+              // mousedown fires before the input blurs and closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(match.symbol);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`flex items-center gap-3 px-3 py-2 cursor-pointer text-sm ${
+                i === active ? "bg-accent text-accent-foreground" : ""
+              }`}
+            >
+              <span className="font-mono font-semibold w-20 shrink-0">{match.symbol}</span>
+              <span className="truncate flex-1 text-muted-foreground">{match.name}</span>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {[match.exchange, ASSET_LABELS[match.assetType], match.currency].filter(Boolean).join(" · ")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { ExchangeRate } from "@/lib/types";
+
+/**
+ * THB per unit of the base currency from /api/exchange; pass null to skip fetching
+ */
+export function useExchangeRate(base: string | null) {
+  const [rates, setRates] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!base) return;
+
+    let cancelled = false;
+
+    const fetchRate = async () => {
+      try {
+        const response = await fetch(`/api/exchange?from=${encodeURIComponent(base)}`);
+        if (!response.ok) return;
+        const data: ExchangeRate = await response.json();
+        if (!cancelled) {
+          setRates((prev) => ({ ...prev, [data.base]: data.rate }));
+        }
+      } catch {
+        console.error("Failed to fetch exchange rate");
+      }
+    };
+
+    fetchRate();
+    return () => {
+      cancelled = true;
+    };
+  }, [base]);
+
+  return base ? rates[base] ?? null : null;
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { LiveQuote } from "@/lib/types";
+
+/**
+ * Subscribes to /api/stream and returns the latest pushed quote per symbol.
+ * The stream sends the current quote on connect and then only price changes, so outside
+ * trading hours each symbol holds its last price and stops updating.
+ */
+export function useLiveQuotes(symbols: string[]) {
+  const [quotes, setQuotes] = useState<Record<string, LiveQuote>>({});
+
+  // Reconnect only when the set of symbols changes, not on every new array
+  const key = Array.from(new Set(symbols)).slice(0, 20).join(",");
+
+  useEffect(() => {
+    if (!key) return;
+
+    // EventSource reconnects on its own after network drops
+    const source = new EventSource(`/api/stream?symbols=${encodeURIComponent(key)}`);
+    source.addEventListener("quote", (event) => {
+      try {
+        const quote: LiveQuote = JSON.parse((event as MessageEvent<string>).data);
+        setQuotes((prev) => ({ ...prev, [quote.symbol]: quote }));
+      } catch {
+        // A malformed event only costs one tick
+      }
+    });
+
+    return () => source.close();
+  }, [key]);
+
+  return quotes;
+}
+
+/**
+ * Live quote for a single symbol; pass null to stay disconnected
+ */
+export function useLiveQuote(symbol: string | null) {
+  const quotes = useLiveQuotes(symbol ? [symbol] : []);
+  return symbol ? quotes[symbol] ?? null : null;
+}
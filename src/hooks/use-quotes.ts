@@ -0,0 +1,49 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { BatchQuotes, MarketIndex } from "@/lib/types";
+
+const REFRESH_INTERVAL = 60000;
+
+/**
+ * Polls /api/quotes for a list of symbols and returns the latest quote per symbol
+ */
+export function useQuotes(symbols: string[]) {
+  const [quotes, setQuotes] = useState<Record<string, MarketIndex>>({});
+
+  // Refetch only when the set of symbols changes, not on every new array
+  const key = Array.from(new Set(symbols)).slice(0, 50).join(",");
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+
+    const fetchQuotes = async () => {
+      try {
+        const response = await fetch(`/api/quotes?symbols=${encodeURIComponent(key)}`);
+        if (!response.ok) return;
+        const result: BatchQuotes = await response.json();
+        if (cancelled) return;
+        setQuotes((prev) => {
+          const next = { ...prev };
+          result.quotes.forEach((quote) => {
+            next[quote.symbol] = quote;
+          });
+          return next;
+        });
+      } catch {
+        // Prices are decoration on the chips, so failures stay quiet
+      }
+    };
+
+    fetchQuotes();
+    const interval = setInterval(fetchQuotes, REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [key]);
+
+  return quotes;
+}
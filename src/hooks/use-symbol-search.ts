@@ -0,0 +1,46 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { SymbolMatch, SymbolSearchResults } from "@/lib/types";
+
+const DEBOUNCE_MS = 250;
+
+/**
+ * Debounced symbol suggestions for the search box
+ */
+export function useSymbolSearch(query: string) {
+  const [results, setResults] = useState<SymbolMatch[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      if (!trimmed) {
+        setResults([]);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`);
+        if (!response.ok) throw new Error("Search failed");
+        const data: SymbolSearchResults = await response.json();
+        if (!cancelled) setResults(data.results);
+      } catch {
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, trimmed ? DEBOUNCE_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  return { results, loading };
+}
@@ -0,0 +1,77 @@
+// Client side of the API error taxonomy: turns error responses into messages worth showing
+import type { ApiError, ApiErrorCode } from "@/lib/types";
+
+/**
+ * Thrown by client fetchers for a non-OK API response
+ */
+export class ApiRequestError extends Error {
+  // Null when the body wasn't one of our error responses (proxy pages, crashes)
+  readonly code: ApiErrorCode | null;
+  readonly status: number;
+  readonly retryAfter: number | null;
+
+  constructor(message: string, status: number, code: ApiErrorCode | null, retryAfter: number | null) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = status;
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Reads the error body of a failed response; fallback is the message when there is none
+ */
+export async function toRequestError(response: Response, fallback: string): Promise<ApiRequestError> {
+  const body: Partial<ApiError> = await response.json().catch(() => ({}));
+  const header = Number(response.headers.get("Retry-After"));
+  const retryAfter = body.retryAfter ?? (header > 0 ? header : null);
+  return new ApiRequestError(body.message || fallback, response.status, body.code ?? null, retryAfter);
+}
+
+function formatWait(seconds: number | null): string {
+  if (seconds === null || seconds < 10) return "a few seconds";
+  if (seconds < 90) return `${seconds} seconds`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)} minutes`;
+  return `about ${Math.round(seconds / 3600)} hours`;
+}
+
+/**
+ * User-facing message for a failed load. subject names what was being loaded ("news", "options")
+ * and appears in the message; codes whose server message is already specific pass it through.
+ */
+export function describeError(error: unknown, subject: string): string {
+  if (!(error instanceof ApiRequestError)) {
+    // fetch itself throws a TypeError when the request never got an answer
+    return error instanceof TypeError
+      ? `Couldn't load ${subject}. Check your connection and try again.`
+      : error instanceof Error
+        ? error.message
+        : `Couldn't load ${subject}.`;
+  }
+
+  const wait = formatWait(error.retryAfter);
+  const capitalized = subject.charAt(0).toUpperCase() + subject.slice(1);
+
+  switch (error.code) {
+    case "INVALID_SYMBOL":
+      return "That doesn't look like a valid symbol. Try something like AAPL, ^GSPC, THB=X or BTC-USD.";
+    case "UNSUPPORTED_ASSET":
+      return `${capitalized} isn't available for this kind of asset.`;
+    case "RATE_LIMITED":
+      return `You're going a little fast. Try again in ${wait}.`;
+    case "UPSTREAM_RATE_LIMITED":
+      return `The ${subject} provider is rate limiting us. Try again in ${wait}.`;
+    case "UPSTREAM_UNAVAILABLE":
+      return `The ${subject} provider isn't responding right now. Try again in ${wait}.`;
+    case "UPSTREAM_ERROR":
+      return `The ${subject} provider sent back something we couldn't use. Try again shortly.`;
+    case "CONFIG_MISSING":
+      return `${capitalized} isn't set up on this server yet (missing or rejected API key).`;
+    case "INTERNAL_ERROR":
+      return `Something went wrong loading ${subject}. Try again shortly.`;
+    default:
+      // INVALID_PARAMETER and NOT_FOUND messages already say exactly what was wrong
+      return error.message;
+  }
+}
@@ -0,0 +1,51 @@
+// Asset classes inferred from Yahoo-style ticker syntax, and how each one trades
+
+import type { AssetType } from "@/lib/types";
+
+export type TradingSession = "exchange" | "24/5" | "24/7";
+
+interface TradingCalendar {
+  session: TradingSession;
+  daysPerYear: number;
+  hoursPerDay: number;
+}
+
+// Crypto quoted against a fiat or major coin, e.g. BTC-USD, ETH-BTC
+const CRYPTO_QUOTE_PATTERN = /-(USD|USDT|USDC|EUR|GBP|JPY|THB|BTC|ETH)$/;
+
+/**
+ * Best guess from the ticker alone; providers that report an instrument type take precedence
+ */
+export function classifySymbol(symbol: string): AssetType {
+  if (symbol.startsWith("^")) return "index";
+  if (symbol.endsWith("=X")) return "currency";
+  if (symbol.endsWith("=F")) return "future";
+  if (CRYPTO_QUOTE_PATTERN.test(symbol)) return "crypto";
+  return "equity";
+}
+
+/**
+ * Only companies (and funds holding them) have financial statements, news and earnings
+ */
+export function hasFundamentals(assetType: AssetType): boolean {
+  return assetType === "equity" || assetType === "etf" || assetType === "mutualfund";
+}
+
+/**
+ * Listed options exist for stocks, ETFs and the big indices (SPX, NDX)
+ */
+export function hasOptions(assetType: AssetType): boolean {
+  return assetType === "equity" || assetType === "etf" || assetType === "index";
+}
+
+export function getTradingCalendar(assetType: AssetType): TradingCalendar {
+  switch (assetType) {
+    case "crypto":
+      return { session: "24/7", daysPerYear: 365, hoursPerDay: 24 };
+    case "currency":
+    case "future":
+      return { session: "24/5", daysPerYear: 260, hoursPerDay: 24 };
+    default:
+      return { session: "exchange", daysPerYear: 252, hoursPerDay: 6.5 };
+  }
+}
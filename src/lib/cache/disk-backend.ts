@@ -0,0 +1,68 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CacheBackend, CacheRecord } from "./types";
+
+// Files past their stale window are only deleted when read, so entries from earlier runs that are
+// never asked for again get swept this often
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Stores each record as a JSON file so cached data survives restarts
+ */
+export class DiskBackend implements CacheBackend {
+  readonly name = "disk";
+  private readonly dir: string;
+  private lastSweep = 0;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(process.cwd(), dir);
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheRecord<T> | undefined> {
+    try {
+      const record: CacheRecord<T> = JSON.parse(await readFile(this.filePath(key), "utf8"));
+      if (Date.now() > record.staleUntil) {
+        await this.delete(key);
+        return undefined;
+      }
+      return record;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, record: CacheRecord<T>): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.filePath(key), JSON.stringify(record));
+
+    if (Date.now() - this.lastSweep > SWEEP_INTERVAL_MS) {
+      this.lastSweep = Date.now();
+      this.sweep().catch((error) => console.error("Cache sweep failed:", error));
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    for (const file of await readdir(this.dir)) {
+      if (!file.endsWith(".json")) continue;
+      const filePath = path.join(this.dir, file);
+      try {
+        const record: CacheRecord = JSON.parse(await readFile(filePath, "utf8"));
+        if (Date.now() > record.staleUntil) {
+          await rm(filePath, { force: true });
+        }
+      } catch {
+        // Being written right now, or not ours; leave it
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.filePath(key), { force: true });
+  }
+}
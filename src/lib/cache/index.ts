@@ -0,0 +1,220 @@
+import { MemoryBackend } from "./memory-backend";
+import { DiskBackend } from "./disk-backend";
+import { LocalRedisStandIn, RedisBackend, RespClient } from "./redis-backend";
+import type { CacheBackend, CacheEntry, CacheOptions, CacheRecord, CacheStats } from "./types";
+
+export type { CacheEntry, CacheOptions, CacheStats } from "./types";
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+// A backend that stops answering (a stalled Redis, a hung network disk) counts as a miss after this
+const BACKEND_TIMEOUT_MS = 2000;
+
+function withDeadline<T>(operation: Promise<T>, description: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${description} timed out after ${BACKEND_TIMEOUT_MS}ms`)), BACKEND_TIMEOUT_MS);
+  });
+  return Promise.race([operation, deadline]).finally(() => clearTimeout(timer));
+}
+
+// Route bundles can load this module more than once, so shared state lives on globalThis
+const globalForCache = globalThis as unknown as {
+  stockyCacheBackend?: CacheBackend;
+  stockyCacheRegistry?: Map<string, ServerCache<unknown>>;
+};
+
+/**
+ * Picks the backend from CACHE_BACKEND (memory, disk or redis); one instance is shared by all caches
+ */
+function getBackend(): CacheBackend {
+  if (globalForCache.stockyCacheBackend) return globalForCache.stockyCacheBackend;
+
+  let sharedBackend: CacheBackend;
+
+  const configured = process.env.CACHE_BACKEND?.toLowerCase().trim() || "memory";
+
+  switch (configured) {
+    case "disk":
+      sharedBackend = new DiskBackend(process.env.CACHE_DIR || ".cache/stocky-ahh");
+      break;
+    case "redis": {
+      const redisUrl = process.env.REDIS_URL;
+      if (!redisUrl) {
+        console.warn("CACHE_BACKEND=redis without REDIS_URL, using the local Redis stand-in");
+      }
+      sharedBackend = new RedisBackend(redisUrl ? new RespClient(redisUrl) : new LocalRedisStandIn());
+      break;
+    }
+    case "memory":
+      sharedBackend = new MemoryBackend();
+      break;
+    default:
+      console.warn(`Unknown CACHE_BACKEND "${configured}", falling back to memory`);
+      sharedBackend = new MemoryBackend();
+  }
+
+  globalForCache.stockyCacheBackend = sharedBackend;
+  return sharedBackend;
+}
+
+/**
+ * Namespaced cache with TTLs, an LRU bound, stale-while-revalidate and hit/miss stats.
+ * Backend failures and timeouts are logged and treated as misses so a cache outage never breaks a route.
+ * The LRU bound only sees keys this process wrote; entries a disk or Redis backend kept from
+ * earlier runs are bounded by their TTL alone (Redis expires them, the disk backend sweeps them).
+ */
+export class ServerCache<T> {
+  private readonly options: Required<CacheOptions>;
+  // Insertion order doubles as recency order for LRU eviction
+  private readonly keys = new Map<string, true>();
+  private readonly refreshing = new Set<string>();
+  private readonly counters = { hits: 0, staleHits: 0, misses: 0, evictions: 0, refreshes: 0 };
+
+  constructor(options: CacheOptions) {
+    this.options = {
+      staleMs: 0,
+      maxEntries: DEFAULT_MAX_ENTRIES,
+      ...options,
+    };
+  }
+
+  private backendKey(key: string): string {
+    return `${this.options.namespace}:${key}`;
+  }
+
+  private touch(key: string) {
+    this.keys.delete(key);
+    this.keys.set(key, true);
+  }
+
+  private async evictOverflow() {
+    while (this.keys.size > this.options.maxEntries) {
+      const oldest = this.keys.keys().next().value as string;
+      this.keys.delete(oldest);
+      this.counters.evictions++;
+      await withDeadline(getBackend().delete(this.backendKey(oldest)), "Cache delete").catch(() => undefined);
+    }
+  }
+
+  private async read(key: string): Promise<CacheRecord<T> | undefined> {
+    try {
+      return await withDeadline(getBackend().get<T>(this.backendKey(key)), "Cache read");
+    } catch (error) {
+      console.error(`Cache read failed for ${this.backendKey(key)}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns a fresh entry, or a stale one still inside its stale window (flagged as stale)
+   */
+  async get(key: string): Promise<CacheEntry<T> | null> {
+    const record = await this.read(key);
+    const now = Date.now();
+
+    if (!record || now > record.staleUntil) {
+      this.keys.delete(key);
+      this.counters.misses++;
+      return null;
+    }
+
+    this.touch(key);
+    const stale = now > record.expiresAt;
+    if (stale) {
+      this.counters.staleHits++;
+    } else {
+      this.counters.hits++;
+    }
+
+    return { value: record.value, storedAt: record.storedAt, expiresAt: record.expiresAt, stale };
+  }
+
+  /**
+   * Returns only fresh entries; use when serving stale data is not acceptable
+   */
+  async getFresh(key: string): Promise<CacheEntry<T> | null> {
+    const entry = await this.get(key);
+    return entry && !entry.stale ? entry : null;
+  }
+
+  async set(key: string, value: T, overrides: { ttlMs?: number } = {}): Promise<CacheEntry<T>> {
+    const now = Date.now();
+    const ttlMs = overrides.ttlMs ?? this.options.ttlMs;
+    const record: CacheRecord<T> = {
+      value,
+      storedAt: now,
+      expiresAt: now + ttlMs,
+      staleUntil: now + ttlMs + this.options.staleMs,
+    };
+
+    try {
+      await withDeadline(getBackend().set(this.backendKey(key), record), "Cache write");
+      this.touch(key);
+      await this.evictOverflow();
+    } catch (error) {
+      console.error(`Cache write failed for ${this.backendKey(key)}:`, error);
+    }
+
+    return { value, storedAt: record.storedAt, expiresAt: record.expiresAt, stale: false };
+  }
+
+  async delete(key: string): Promise<void> {
+    this.keys.delete(key);
+    await withDeadline(getBackend().delete(this.backendKey(key)), "Cache delete").catch(() => undefined);
+  }
+
+  /**
+   * Serves fresh hits directly, serves stale hits while refreshing in the background,
+   * and only waits on the loader for a miss
+   */
+  async getOrLoad(key: string, loader: () => Promise<T>): Promise<CacheEntry<T> & { cached: boolean }> {
+    const entry = await this.get(key);
+
+    if (entry && !entry.stale) {
+      return { ...entry, cached: true };
+    }
+
+    if (entry && entry.stale) {
+      if (!this.refreshing.has(key)) {
+        this.refreshing.add(key);
+        this.counters.refreshes++;
+        loader()
+          .then((value) => this.set(key, value))
+          .catch((error) => console.error(`Background refresh failed for ${this.backendKey(key)}:`, error))
+          .finally(() => this.refreshing.delete(key));
+      }
+      return { ...entry, cached: true };
+    }
+
+    const fresh = await this.set(key, await loader());
+    return { ...fresh, cached: false };
+  }
+
+  stats(): CacheStats {
+    return {
+      namespace: this.options.namespace,
+      backend: getBackend().name,
+      size: this.keys.size,
+      ...this.counters,
+    };
+  }
+}
+
+const registry = (globalForCache.stockyCacheRegistry ??= new Map<string, ServerCache<unknown>>());
+
+/**
+ * Creates (or returns the existing) cache for a namespace
+ */
+export function createCache<T>(options: CacheOptions): ServerCache<T> {
+  const existing = registry.get(options.namespace);
+  if (existing) return existing as ServerCache<T>;
+
+  const cache = new ServerCache<T>(options);
+  registry.set(options.namespace, cache as ServerCache<unknown>);
+  return cache;
+}
+
+export function getCacheStats(): CacheStats[] {
+  return Array.from(registry.values()).map((cache) => cache.stats());
+}
@@ -0,0 +1,23 @@
+import type { CacheBackend, CacheRecord } from "./types";
+
+export class MemoryBackend implements CacheBackend {
+  readonly name = "memory";
+  private store = new Map<string, CacheRecord>();
+
+  async get<T>(key: string): Promise<CacheRecord<T> | undefined> {
+    const record = this.store.get(key) as CacheRecord<T> | undefined;
+    if (record && Date.now() > record.staleUntil) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  async set<T>(key: string, record: CacheRecord<T>): Promise<void> {
+    this.store.set(key, record);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+}
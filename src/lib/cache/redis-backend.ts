@@ -0,0 +1,230 @@
+import { createConnection, type Socket } from "node:net";
+import type { CacheBackend, CacheRecord } from "./types";
+
+/**
+ * The handful of Redis commands the cache needs
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  del(key: string): Promise<void>;
+}
+
+/**
+ * In-process stand-in with Redis semantics (PX expiry, string values),
+ * used when CACHE_BACKEND=redis but no REDIS_URL is configured
+ */
+export class LocalRedisStandIn implements RedisLikeClient {
+  private store = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.store.get(key);
+    if (!entry) return null;
+    if (Date.now() >= entry.expiresAt) {
+      this.store.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.store.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+}
+
+type RespValue = string | number | null | RespValue[];
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// An unreachable host can drop packets without ever refusing the connection; waiting longer than
+// this on connect or a reply means Redis is gone, and the cache treats it as a miss
+const COMMAND_TIMEOUT_MS = 1000;
+
+// Parses one RESP reply starting at offset; returns null when the buffer is incomplete
+function parseReply(buffer: Buffer, offset: number): { value: RespValue | Error; next: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, next: afterLine };
+    case "-":
+      return { value: new Error(line), next: afterLine };
+    case ":":
+      return { value: parseInt(line, 10), next: afterLine };
+    case "$": {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, next: afterLine };
+      if (buffer.length < afterLine + length + 2) return null;
+      return { value: buffer.toString("utf8", afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case "*": {
+      const count = parseInt(line, 10);
+      if (count === -1) return { value: null, next: afterLine };
+      const items: RespValue[] = [];
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, next);
+        if (!item) return null;
+        if (item.value instanceof Error) return { value: item.value, next: item.next };
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      return { value: new Error(`Unexpected RESP type "${type}"`), next: buffer.length };
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("")}`;
+}
+
+/**
+ * Minimal RESP client over a single socket; replies arrive in command order. A command that
+ * times out drops the connection, since the replies after it can no longer be matched up.
+ */
+export class RespClient implements RedisLikeClient {
+  private socket: Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+  private readonly url: URL;
+
+  constructor(url: string) {
+    this.url = new URL(url);
+  }
+
+  private connect(): Socket {
+    if (this.socket) return this.socket;
+
+    const socket = createConnection({
+      host: this.url.hostname || "127.0.0.1",
+      port: Number(this.url.port) || 6379,
+    });
+
+    // An old socket's late events must not tear down its replacement
+    socket.on("data", (chunk) => {
+      if (this.socket === socket) this.onData(chunk);
+    });
+    socket.on("error", (error) => {
+      if (this.socket === socket) this.reset(error);
+    });
+    socket.on("close", () => {
+      if (this.socket === socket) this.reset(new Error("Redis connection closed"));
+    });
+    this.socket = socket;
+
+    // Queued ahead of the caller's command, so ordering still holds
+    if (this.url.password) {
+      const user = decodeURIComponent(this.url.username);
+      const password = decodeURIComponent(this.url.password);
+      this.send(user ? ["AUTH", user, password] : ["AUTH", password]).catch(() => undefined);
+    }
+    const db = this.url.pathname.slice(1);
+    if (db) {
+      this.send(["SELECT", db]).catch(() => undefined);
+    }
+
+    return socket;
+  }
+
+  private reset(error: Error) {
+    this.socket?.destroy();
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((reply) => {
+      clearTimeout(reply.timer);
+      reply.reject(error);
+    });
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let parsed = parseReply(this.buffer, 0);
+    while (parsed) {
+      this.buffer = this.buffer.subarray(parsed.next);
+      const reply = this.pending.shift();
+      if (reply) clearTimeout(reply.timer);
+      if (parsed.value instanceof Error) {
+        reply?.reject(parsed.value);
+      } else {
+        reply?.resolve(parsed.value);
+      }
+      parsed = this.buffer.length > 0 ? parseReply(this.buffer, 0) : null;
+    }
+  }
+
+  private send(args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.reset(new Error(`Redis ${args[0]} timed out after ${COMMAND_TIMEOUT_MS}ms`)),
+        COMMAND_TIMEOUT_MS
+      );
+      this.pending.push({ resolve, reject, timer });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  private command(args: string[]): Promise<RespValue> {
+    this.connect();
+    return this.send(args);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.command(["GET", key]);
+    return typeof value === "string" ? value : null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.command(["SET", key, value, "PX", String(Math.ceil(ttlMs))]);
+  }
+
+  async del(key: string): Promise<void> {
+    await this.command(["DEL", key]);
+  }
+}
+
+/**
+ * Stores records as JSON strings, letting Redis expire them once they are past serving stale
+ */
+export class RedisBackend implements CacheBackend {
+  readonly name = "redis";
+  private readonly client: RedisLikeClient;
+  private readonly prefix: string;
+
+  constructor(client: RedisLikeClient, prefix: string = "stocky-ahh:") {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async get<T>(key: string): Promise<CacheRecord<T> | undefined> {
+    const raw = await this.client.get(this.prefix + key);
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  async set<T>(key: string, record: CacheRecord<T>): Promise<void> {
+    const ttlMs = record.staleUntil - Date.now();
+    if (ttlMs <= 0) return;
+    await this.client.set(this.prefix + key, JSON.stringify(record), ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
@@ -0,0 +1,52 @@
+export interface CacheRecord<T = unknown> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+  /**
+   * Past expiresAt but before staleUntil the value may still be served while it refreshes
+   */
+  staleUntil: number;
+}
+
+/**
+ * Storage behind the cache. Backends only store and fetch records;
+ * expiry, LRU bounds and stats are handled by ServerCache.
+ */
+export interface CacheBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheRecord<T> | undefined>;
+  set<T>(key: string, record: CacheRecord<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CacheOptions {
+  namespace: string;
+  ttlMs: number;
+  /**
+   * How long after expiry a value may still be served by getOrLoad while it revalidates
+   */
+  staleMs?: number;
+  /**
+   * LRU bound on the number of keys this process has written to the namespace; entries left
+   * on disk or in Redis by earlier runs only expire by TTL
+   */
+  maxEntries?: number;
+}
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+  stale: boolean;
+}
+
+export interface CacheStats {
+  namespace: string;
+  backend: string;
+  size: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  refreshes: number;
+}
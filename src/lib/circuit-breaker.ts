@@ -0,0 +1,162 @@
+// Per-upstream circuit breakers: stop calling a dependency that keeps failing and probe it again later
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * What an error says about the upstream: "failure" counts against it, "answered" means it replied
+ * (e.g. an unknown symbol), "unrelated" means the error came from our side and says nothing
+ */
+export type ErrorOutcome = "failure" | "answered" | "unrelated";
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // First cooldown; each failed probe doubles it up to maxCooldownMs
+  baseCooldownMs: number;
+  maxCooldownMs: number;
+}
+
+export interface CircuitStats {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  // Times the circuit has opened since the last success
+  trips: number;
+  lastFailure: string | null;
+  lastError: string | null;
+  // When an open circuit lets the next probe through
+  retryAt: string | null;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  baseCooldownMs: 15 * 1000,
+  maxCooldownMs: 5 * 60 * 1000,
+};
+
+/**
+ * Raised without calling the upstream while its circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly circuit: string;
+  readonly retryAt: number;
+
+  constructor(circuit: string, retryAt: number) {
+    super(`${circuit} is unavailable, retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = "CircuitOpenError";
+    this.circuit = circuit;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Closed: calls pass through and consecutive failures are counted.
+ * Open: calls fail fast until the cooldown ends.
+ * Half-open: one probe goes through; success closes the circuit, failure reopens it with a longer cooldown.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private trips = 0;
+  private openUntil = 0;
+  private lastFailure: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions = DEFAULT_OPTIONS
+  ) {}
+
+  /**
+   * Runs fn unless the circuit is open. classify decides which errors count against the upstream;
+   * the rest (e.g. an unknown symbol) pass through without affecting the circuit.
+   */
+  async execute<T>(fn: () => Promise<T>, classify: (error: unknown) => ErrorOutcome = () => "failure"): Promise<T> {
+    if (this.state === "open") {
+      if (Date.now() < this.openUntil) {
+        throw new CircuitOpenError(this.name, this.openUntil);
+      }
+      this.state = "half-open";
+    } else if (this.state === "half-open") {
+      // A probe is already in flight; everyone else keeps failing fast
+      throw new CircuitOpenError(this.name, Date.now() + this.options.baseCooldownMs);
+    }
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      const outcome = classify(error);
+      if (outcome === "failure") {
+        this.recordFailure(error);
+      } else if (this.state === "half-open" && outcome === "answered") {
+        // The upstream answered, just not with data; that still proves it is reachable
+        this.recordSuccess();
+      } else if (this.state === "half-open") {
+        // The probe proved nothing either way; let the next call probe instead
+        this.state = "open";
+        this.openUntil = Date.now();
+      }
+      throw error;
+    }
+  }
+
+  stats(): CircuitStats {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      trips: this.trips,
+      lastFailure: this.lastFailure ? new Date(this.lastFailure).toISOString() : null,
+      lastError: this.lastError,
+      retryAt: this.state === "open" ? new Date(this.openUntil).toISOString() : null,
+    };
+  }
+
+  private recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trips = 0;
+  }
+
+  private recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastFailure = Date.now();
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === "half-open" || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.trips++;
+      const cooldown = Math.min(
+        this.options.baseCooldownMs * Math.pow(2, this.trips - 1),
+        this.options.maxCooldownMs
+      );
+      this.state = "open";
+      this.openUntil = Date.now() + cooldown;
+      console.warn(`Circuit ${this.name} opened for ${Math.round(cooldown / 1000)}s: ${this.lastError}`);
+    }
+  }
+}
+
+// Route bundles can load this module more than once, so breakers live on globalThis
+const globalForBreakers = globalThis as unknown as {
+  stockyCircuitBreakers?: Map<string, CircuitBreaker>;
+};
+
+const breakers = (globalForBreakers.stockyCircuitBreakers ??= new Map<string, CircuitBreaker>());
+
+/**
+ * Returns the shared breaker for an upstream, creating it on first use
+ */
+export function getCircuitBreaker(name: string): CircuitBreaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name);
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
+
+export function getCircuitStats(): CircuitStats[] {
+  return [...breakers.values()].map((breaker) => breaker.stats());
+}
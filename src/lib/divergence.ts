@@ -0,0 +1,96 @@
+// RSI divergences: price swings and RSI swings that disagree about momentum
+import type { Candle, Series } from "@/lib/indicators";
+import { findSwingPoints, type SwingPoint } from "@/lib/levels";
+import type { DivergencePoint, RSIDivergence } from "@/lib/types";
+
+// Candles on each side a swing must beat, for price and RSI alike
+const SWING_STRENGTH = 3;
+
+// RSI often turns a candle or two before or after price does
+const RSI_SWING_TOLERANCE = 3;
+
+// Swings closer than this are one move; further apart, unrelated ones
+const MIN_SWING_GAP = 5;
+const MAX_SWING_GAP = 60;
+
+interface RSISwing {
+  value: number;
+  index: number;
+}
+
+// Local extremes of the RSI line; candles still warming up never count
+function findRSISwings(series: Series, strength: number) {
+  const highs: RSISwing[] = [];
+  const lows: RSISwing[] = [];
+
+  for (let i = strength; i < series.length - strength; i++) {
+    const value = series[i];
+    if (value === null) continue;
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - strength; j <= i + strength && (isHigh || isLow); j++) {
+      if (j === i) continue;
+      const other = series[j];
+      if (other === null || other >= value) isHigh = false;
+      if (other === null || other <= value) isLow = false;
+    }
+    if (isHigh) highs.push({ value, index: i });
+    if (isLow) lows.push({ value, index: i });
+  }
+  return { highs, lows };
+}
+
+function nearestSwing(swings: RSISwing[], index: number): RSISwing | null {
+  let nearest: RSISwing | null = null;
+  for (const swing of swings) {
+    const distance = Math.abs(swing.index - index);
+    if (distance <= RSI_SWING_TOLERANCE && (!nearest || distance < Math.abs(nearest.index - index))) {
+      nearest = swing;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Regular divergences between consecutive price swings and the RSI swings beside them, in order
+ * of the later swing. A swing is only known once SWING_STRENGTH more candles have closed, so
+ * the newest divergence trails the latest candle by at least that much.
+ */
+export function findRSIDivergences(candles: Candle[], timestamps: string[], rsiSeries: Series): RSIDivergence[] {
+  const price = findSwingPoints(candles, SWING_STRENGTH);
+  const rsiSwings = findRSISwings(rsiSeries, SWING_STRENGTH);
+  const divergences: RSIDivergence[] = [];
+
+  const toPoint = (swing: SwingPoint, rsi: RSISwing): DivergencePoint => ({
+    index: swing.index,
+    timestamp: timestamps[swing.index],
+    price: swing.price,
+    rsi: Math.round(rsi.value * 100) / 100,
+    rsiIndex: rsi.index,
+    rsiTimestamp: timestamps[rsi.index],
+  });
+
+  const scan = (points: SwingPoint[], swings: RSISwing[], bias: RSIDivergence["bias"]) => {
+    for (let k = 1; k < points.length; k++) {
+      const [start, end] = [points[k - 1], points[k]];
+      const gap = end.index - start.index;
+      if (gap < MIN_SWING_GAP || gap > MAX_SWING_GAP) continue;
+
+      const rsiStart = nearestSwing(swings, start.index);
+      const rsiEnd = nearestSwing(swings, end.index);
+      if (!rsiStart || !rsiEnd || rsiStart === rsiEnd) continue;
+
+      const diverges = bias === "bullish"
+        ? end.price < start.price && rsiEnd.value > rsiStart.value
+        : end.price > start.price && rsiEnd.value < rsiStart.value;
+      if (diverges) {
+        divergences.push({ bias, start: toPoint(start, rsiStart), end: toPoint(end, rsiEnd) });
+      }
+    }
+  };
+
+  scan(price.lows, rsiSwings.lows, "bullish");
+  scan(price.highs, rsiSwings.highs, "bearish");
+
+  return divergences.sort((a, b) => a.end.index - b.end.index);
+}
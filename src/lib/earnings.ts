@@ -0,0 +1,34 @@
+// Earnings calendar and EPS history, shared by the earnings route and the AI prompt
+import { createCache } from "@/lib/cache";
+import { getMarketDataProvider } from "@/lib/providers";
+import type { EarningsData } from "@/lib/types";
+
+const MAX_QUARTERS = 8;
+
+// Report dates and estimates change a few times a quarter at most
+const earningsCache = createCache<EarningsData>({
+  namespace: "earnings",
+  ttlMs: 6 * 60 * 60 * 1000,
+  maxEntries: 500,
+});
+
+async function loadEarnings(symbol: string): Promise<EarningsData> {
+  const report = await getMarketDataProvider().getEarnings(symbol);
+  const today = new Date().toISOString().slice(0, 10);
+
+  return {
+    symbol,
+    // Providers keep the last report date around for a while after it has passed
+    next: report.next && report.next.date >= today ? report.next : null,
+    history: report.history.slice(0, MAX_QUARTERS),
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Cached earnings for a symbol; throws ProviderError when the provider call fails
+ */
+export async function getEarnings(symbol: string): Promise<EarningsData> {
+  const { value } = await earningsCache.getOrLoad(symbol, () => loadEarnings(symbol));
+  return value;
+}
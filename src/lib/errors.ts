@@ -0,0 +1,115 @@
+// API error taxonomy: one stable code per failure, each with a fixed HTTP status
+import { NextResponse } from "next/server";
+import { ProviderError } from "@/lib/providers";
+import { getRetryAfter } from "@/lib/rate-limit";
+import type { ApiError, ApiErrorCode } from "@/lib/types";
+
+const ERRORS: Record<ApiErrorCode, { status: number; title: string }> = {
+  INVALID_SYMBOL: { status: 400, title: "Invalid symbol" },
+  INVALID_PARAMETER: { status: 400, title: "Invalid parameter" },
+  NOT_FOUND: { status: 404, title: "Not found" },
+  // The symbol is fine, the resource just doesn't exist for its asset type (options on an FX pair)
+  UNSUPPORTED_ASSET: { status: 422, title: "Unsupported asset" },
+  RATE_LIMITED: { status: 429, title: "Rate limit exceeded" },
+  // Upstream throttling isn't the client's fault, so it is a 503 rather than a 429
+  UPSTREAM_RATE_LIMITED: { status: 503, title: "Upstream rate limited" },
+  UPSTREAM_UNAVAILABLE: { status: 503, title: "Upstream unavailable" },
+  UPSTREAM_ERROR: { status: 502, title: "Upstream error" },
+  CONFIG_MISSING: { status: 503, title: "Not configured" },
+  INTERNAL_ERROR: { status: 500, title: "Server error" },
+};
+
+// Used when the cause doesn't say when to come back
+const DEFAULT_RETRY_AFTER: Partial<Record<ApiErrorCode, number>> = {
+  RATE_LIMITED: 60,
+  UPSTREAM_RATE_LIMITED: 60,
+  UPSTREAM_UNAVAILABLE: 30,
+};
+
+export interface ApiErrorOptions {
+  // Seconds; sent as Retry-After and in the body
+  retryAfter?: number;
+  // Extra fields merged into the body, e.g. per-symbol errors
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Error body for a code, for places that report errors inside a larger response
+ */
+export function toApiError(code: ApiErrorCode, message: string, retryAfter?: number): ApiError {
+  return {
+    code,
+    error: ERRORS[code].title,
+    message,
+    ...(retryAfter !== undefined && { retryAfter }),
+  };
+}
+
+/**
+ * JSON error response with the status for the code and Retry-After where it applies
+ */
+export function apiError(code: ApiErrorCode, message: string, options: ApiErrorOptions = {}): NextResponse {
+  const retryAfter = options.retryAfter ?? DEFAULT_RETRY_AFTER[code];
+
+  return NextResponse.json(
+    { ...toApiError(code, message, retryAfter), ...options.details },
+    {
+      status: ERRORS[code].status,
+      headers: retryAfter !== undefined ? { "Retry-After": String(retryAfter) } : undefined,
+    }
+  );
+}
+
+/**
+ * 429 for a client over the shared rate limit, with the seconds left in its window
+ */
+export function rateLimitExceeded(ip: string): NextResponse {
+  return apiError("RATE_LIMITED", "Please wait before making another request", {
+    retryAfter: getRetryAfter(ip),
+  });
+}
+
+/**
+ * Classifies a provider failure: the upstream said no such thing, is throttling us,
+ * rejected or lacks credentials, sent a payload we can't parse, or is down
+ */
+export function providerErrorCode(error: ProviderError): ApiErrorCode {
+  switch (error.status) {
+    case 400:
+    case 404:
+    case 422:
+      return "NOT_FOUND";
+    case 429:
+      return "UPSTREAM_RATE_LIMITED";
+    case 401:
+    case 403:
+      return "CONFIG_MISSING";
+    // Raised by parsePayload for schema drift, as well as passed through from a gateway
+    case 502:
+      return "UPSTREAM_ERROR";
+    default:
+      return "UPSTREAM_UNAVAILABLE";
+  }
+}
+
+const PROVIDER_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  UPSTREAM_RATE_LIMITED: "The market data provider's rate limit was reached. Please try again shortly.",
+  CONFIG_MISSING: "The market data provider rejected the request; check its API key.",
+  UPSTREAM_ERROR: "The market data provider sent an unexpected response. Please try again shortly.",
+  UPSTREAM_UNAVAILABLE: "Market data is temporarily unavailable. Please try again shortly.",
+};
+
+/**
+ * 503 for an upstream that timed out or could not be reached, before it answered at all
+ */
+export function upstreamUnavailable(): NextResponse {
+  return apiError("UPSTREAM_UNAVAILABLE", PROVIDER_MESSAGES.UPSTREAM_UNAVAILABLE!);
+}
+
+/**
+ * Response for a provider failure; notFoundMessage names what was missing
+ */
+export function providerErrorResponse(error: ProviderError, notFoundMessage: string): NextResponse {
+  const code = providerErrorCode(error);
+  return apiError(code, PROVIDER_MESSAGES[code] ?? notFoundMessage, { retryAfter: error.retryAfter });
+}
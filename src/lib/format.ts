@@ -0,0 +1,148 @@
+// Client-side formatting for money and candle timestamps (always shown in the exchange's time zone)
+
+import type { HistoryInterval, HistoryRange } from "@/lib/types";
+
+const INTRADAY_INTERVALS: HistoryInterval[] = ["1m", "5m", "15m", "1h"];
+
+function formatInZone(timestamp: string, timezone: string, options: Intl.DateTimeFormatOptions): string {
+  const date = new Date(timestamp);
+  try {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: timezone }).format(date);
+  } catch {
+    // Unknown zone names throw a RangeError; UTC is better than no label
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" }).format(date);
+  }
+}
+
+// Yahoo quotes some listings in minor units: London in pence, Johannesburg in cents, Tel Aviv in agorot
+const MINOR_UNITS: Record<string, { major: string; divisor: number; suffix: string }> = {
+  GBp: { major: "GBP", divisor: 100, suffix: "p" },
+  GBX: { major: "GBP", divisor: 100, suffix: "p" },
+  ZAc: { major: "ZAR", divisor: 100, suffix: "c" },
+  ILA: { major: "ILS", divisor: 100, suffix: " ag." },
+};
+
+/**
+ * The ISO currency and divisor to use when converting a price quoted in minor units
+ */
+export function toMajorCurrency(currency: string): { currency: string; divisor: number } {
+  const minor = MINOR_UNITS[currency];
+  return minor ? { currency: minor.major, divisor: minor.divisor } : { currency: currency.toUpperCase(), divisor: 1 };
+}
+
+/**
+ * Formats a price in its quote currency ("$189.84", "฿32.50", "¥2,346", "245.60p").
+ * decimals overrides the currency's usual precision, e.g. 4 for FX rates.
+ */
+export function formatMoney(value: number, currency: string = "USD", decimals?: number): string {
+  const minor = MINOR_UNITS[currency];
+  if (minor) {
+    return `${value.toFixed(decimals ?? 2)}${minor.suffix}`;
+  }
+
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      currencyDisplay: "narrowSymbol",
+      ...(decimals !== undefined && { minimumFractionDigits: decimals, maximumFractionDigits: decimals }),
+    }).format(value);
+  } catch {
+    // Codes Intl does not know still render, just without a symbol
+    return `${value.toFixed(decimals ?? 2)} ${currency}`;
+  }
+}
+
+/**
+ * Large amounts in short form ("$2.95T", "฿412.30B"), for market caps and revenue
+ */
+export function formatCompactMoney(value: number, currency: string = "USD"): string {
+  const major = toMajorCurrency(currency);
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: major.currency,
+      currencyDisplay: "narrowSymbol",
+      notation: "compact",
+      maximumFractionDigits: 2,
+    }).format(value / major.divisor);
+  } catch {
+    return `${value / major.divisor} ${major.currency}`;
+  }
+}
+
+export function isIntradayInterval(interval: HistoryInterval): boolean {
+  return INTRADAY_INTERVALS.includes(interval);
+}
+
+/**
+ * Short x-axis label sized to the range: times for a single day, days for short ranges,
+ * months for a year or more and bare years for the full history
+ */
+export function formatAxisLabel(
+  timestamp: string,
+  timezone: string,
+  range: HistoryRange,
+  interval: HistoryInterval
+): string {
+  if (isIntradayInterval(interval)) {
+    if (range === "1d") {
+      return formatInZone(timestamp, timezone, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" });
+    }
+    return formatInZone(timestamp, timezone, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+  }
+
+  if (range === "max") {
+    return formatInZone(timestamp, timezone, { year: "numeric" });
+  }
+  if (range === "1y" || range === "5y" || interval === "1mo") {
+    return formatInZone(timestamp, timezone, { month: "short", year: "2-digit" });
+  }
+  return formatInZone(timestamp, timezone, { month: "short", day: "numeric" });
+}
+
+/**
+ * Full candle date for tooltips, with the time and zone abbreviation for intraday candles
+ */
+export function formatCandleTime(timestamp: string, timezone: string, interval: HistoryInterval): string {
+  if (isIntradayInterval(interval)) {
+    return formatInZone(timestamp, timezone, {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+      timeZoneName: "short",
+    });
+  }
+  return formatInZone(timestamp, timezone, { month: "short", day: "numeric", year: "numeric" });
+}
+
+/**
+ * Calendar date such as "Aug 31, 2020", used for dividends and splits
+ */
+export function formatEventDate(timestamp: string, timezone: string): string {
+  return formatInZone(timestamp, timezone, { month: "short", day: "numeric", year: "numeric" });
+}
+
+/**
+ * Formats a plain YYYY-MM-DD date (earnings dates, fiscal quarters) without shifting it across zones
+ */
+export function formatCalendarDate(date: string): string {
+  return formatInZone(`${date}T00:00:00Z`, "UTC", { month: "short", day: "numeric", year: "numeric" });
+}
+
+/**
+ * Whole days from today until a YYYY-MM-DD date, negative once it has passed
+ */
+export function daysUntil(date: string, now: Date = new Date()): number {
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((Date.parse(`${date}T00:00:00Z`) - today) / (24 * 60 * 60 * 1000));
+}
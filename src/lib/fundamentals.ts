@@ -0,0 +1,109 @@
+// Company profile and fundamentals from Alpha Vantage's OVERVIEW function
+import { upstreamFetch, resolveApiKey } from "@/lib/upstream";
+import { createCache } from "@/lib/cache";
+import { singleFlight, flightKey } from "@/lib/single-flight";
+import { parseAlphaVantagePayload, ProviderError } from "@/lib/providers";
+import { numeric, object, optional, string, type Infer } from "@/lib/schema";
+import type { CompanyProfile } from "@/lib/types";
+
+const ALPHA_VANTAGE_BASE_URL = "https://www.alphavantage.co/query";
+
+// Fundamentals only move with quarterly filings
+const profileCache = createCache<CompanyProfile>({
+  namespace: "profile",
+  ttlMs: 60 * 60 * 1000,
+  maxEntries: 500,
+});
+
+// Every OVERVIEW value is a string, numbers included
+const overviewSchema = object({
+  Symbol: optional(string),
+  Name: optional(string),
+  Description: optional(string),
+  Exchange: optional(string),
+  Currency: optional(string),
+  Country: optional(string),
+  Sector: optional(string),
+  Industry: optional(string),
+  OfficialSite: optional(string),
+  FullTimeEmployees: numeric,
+  MarketCapitalization: numeric,
+  PERatio: numeric,
+  EPS: numeric,
+  DividendYield: numeric,
+  Beta: numeric,
+  ProfitMargin: numeric,
+  OperatingMarginTTM: numeric,
+  "52WeekHigh": numeric,
+  "52WeekLow": numeric,
+});
+
+type Overview = Infer<typeof overviewSchema>;
+
+// Alpha Vantage fills unknown fields with "None", "-" or "0"
+function parseText(value: string | undefined): string | null {
+  const text = value?.trim();
+  return text && text !== "None" && text !== "-" ? text : null;
+}
+
+function parsePositive(value: number | null): number | null {
+  return value !== null && value > 0 ? value : null;
+}
+
+function toCompanyProfile(symbol: string, data: Overview): CompanyProfile {
+  return {
+    symbol,
+    name: parseText(data.Name) ?? symbol,
+    description: parseText(data.Description),
+    exchange: parseText(data.Exchange),
+    currency: parseText(data.Currency),
+    country: parseText(data.Country),
+    sector: parseText(data.Sector),
+    industry: parseText(data.Industry),
+    website: parseText(data.OfficialSite),
+    employees: parsePositive(data.FullTimeEmployees),
+    marketCap: parsePositive(data.MarketCapitalization),
+    peRatio: parsePositive(data.PERatio),
+    eps: data.EPS,
+    dividendYield: data.DividendYield,
+    beta: data.Beta,
+    profitMargin: data.ProfitMargin,
+    operatingMargin: data.OperatingMarginTTM,
+    fiftyTwoWeekHigh: parsePositive(data["52WeekHigh"]),
+    fiftyTwoWeekLow: parsePositive(data["52WeekLow"]),
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+async function loadCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  const apiKey = resolveApiKey("ALPHA_VANTAGE_API_KEY");
+  if (!apiKey) {
+    throw new ProviderError("alphavantage", "Alpha Vantage API key is not set", 401);
+  }
+
+  // Concurrent lookups of the same symbol share one Alpha Vantage call (free tier quota)
+  const data = await singleFlight(flightKey("alphavantage", symbol, { function: "OVERVIEW" }), async () => {
+    const url = `${ALPHA_VANTAGE_BASE_URL}?function=OVERVIEW&symbol=${encodeURIComponent(symbol)}&apikey=${apiKey}`;
+    const response = await upstreamFetch(url);
+    if (!response.ok) {
+      throw new ProviderError("alphavantage", `Alpha Vantage returned ${response.status}`, response.status);
+    }
+    return (await response.json()) as unknown;
+  });
+
+  const overview = parseAlphaVantagePayload(overviewSchema, data, "OVERVIEW");
+  // Unknown tickers get an empty object
+  if (!overview.Symbol) {
+    throw new ProviderError("alphavantage", `No company profile for symbol: ${symbol}`, 404);
+  }
+
+  return toCompanyProfile(symbol, overview);
+}
+
+/**
+ * Cached company profile; throws ProviderError when the key is missing, the quota is spent or the ticker is unknown
+ */
+export async function getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  const { value } = await profileCache.getOrLoad(symbol, () => loadCompanyProfile(symbol));
+  return value;
+}
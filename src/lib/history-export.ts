@@ -0,0 +1,119 @@
+// Raw price history downloads (history.csv / history.json) for spreadsheets and notebooks
+import { NextRequest, NextResponse } from "next/server";
+import { validateSymbol, decodeSymbolParam, SYMBOL_FORMAT_MESSAGE, parseHistoryQuery } from "@/lib/validation";
+import { getMarketDataProvider, isUpstreamFailure, ProviderError, type PriceBar, type PriceHistory } from "@/lib/providers";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { apiError, rateLimitExceeded, providerErrorResponse, upstreamUnavailable } from "@/lib/errors";
+import type { HistoryInterval, HistoryRange } from "@/lib/types";
+
+export type HistoryExportFormat = "csv" | "json";
+
+export interface HistoryRow {
+  // ISO 8601 candle open time (UTC)
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Null when the provider reports no adjusted series (intraday, Alpha Vantage, Finnhub)
+  adjClose: number | null;
+  volume: number;
+}
+
+const CSV_COLUMNS: (keyof HistoryRow)[] = ["timestamp", "open", "high", "low", "close", "adjClose", "volume"];
+
+// Enough precision for FX rates without the float noise adjustment leaves behind
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function toHistoryRow(bar: PriceBar): HistoryRow {
+  return {
+    timestamp: new Date(bar.timestamp * 1000).toISOString(),
+    open: round(bar.open),
+    high: round(bar.high),
+    low: round(bar.low),
+    close: round(bar.close),
+    adjClose: bar.adjClose === undefined ? null : round(bar.adjClose),
+    volume: bar.volume,
+  };
+}
+
+function toCsv(rows: HistoryRow[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((column) => row[column] ?? "").join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// ^GSPC and THB=X make poor file names
+function toFileName(symbol: string, range: HistoryRange, interval: HistoryInterval, format: HistoryExportFormat): string {
+  return `${symbol.replace(/[^A-Za-z0-9.-]/g, "_")}-${range}-${interval}.${format}`;
+}
+
+/**
+ * Shared GET handler for the history.csv and history.json routes.
+ * Prices are unadjusted; the adjusted close sits in its own column like Yahoo's downloads.
+ */
+export async function exportHistory(
+  request: NextRequest,
+  params: Promise<{ symbol: string }>,
+  format: HistoryExportFormat
+) {
+  try {
+    const ip = getClientIp(request);
+    if (!checkRateLimit(ip)) {
+      return rateLimitExceeded(ip);
+    }
+
+    const { symbol: rawSymbol } = await params;
+    const symbol = validateSymbol(decodeSymbolParam(rawSymbol));
+    if (!symbol) {
+      return apiError("INVALID_SYMBOL", SYMBOL_FORMAT_MESSAGE);
+    }
+
+    const query = parseHistoryQuery(request.nextUrl.searchParams);
+    if (query.error !== undefined) {
+      return apiError("INVALID_PARAMETER", query.message);
+    }
+    const { range, interval } = query;
+
+    let history: PriceHistory;
+    try {
+      history = await getMarketDataProvider().getHistory(symbol, { range, interval });
+    } catch (error) {
+      // Network errors and timeouts land here too; they mean the same thing as a 5xx
+      if (!(error instanceof ProviderError) && !isUpstreamFailure(error)) throw error;
+      console.log(error instanceof Error ? error.message : error);
+      if (!(error instanceof ProviderError)) return upstreamUnavailable();
+      return providerErrorResponse(error, `Unable to find stock data for "${symbol}"`);
+    }
+
+    const rows = history.bars.map(toHistoryRow);
+    const headers = {
+      "Content-Disposition": `attachment; filename="${toFileName(symbol, range, interval, format)}"`,
+    };
+
+    if (format === "csv") {
+      return new NextResponse(toCsv(rows), {
+        headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        symbol,
+        range,
+        interval,
+        currency: history.quote.currency ?? "USD",
+        timezone: history.timezone ?? "UTC",
+        rows,
+      },
+      { headers }
+    );
+  } catch (error) {
+    console.error("History export API error:", error);
+    return apiError("INTERNAL_ERROR", "Failed to export price history. Please try again later.");
+  }
+}
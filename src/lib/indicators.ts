@@ -0,0 +1,605 @@
+// Technical indicator math over OHLC candles: pure functions, no I/O, shared by the API routes
+import type { IndicatorName, IndicatorResult, IndicatorSignal, OHLCData, RSISignal } from "@/lib/types";
+
+/**
+ * One value per candle, aligned with the input; null until the lookback is filled
+ */
+export type Series = Array<number | null>;
+
+// PriceBar (server) and OHLCData (client) both fit
+export type Candle = Pick<OHLCData, "open" | "high" | "low" | "close" | "volume">;
+
+export interface IndicatorSpec {
+  // As requested, e.g. "sma:50"
+  key: string;
+  name: IndicatorName;
+  // Defaults filled in
+  params: number[];
+}
+
+interface ParamRule {
+  label: string;
+  default: number;
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+const periodRule = (label: string, fallback: number): ParamRule => ({
+  label,
+  default: fallback,
+  min: 2,
+  max: 200,
+  integer: true,
+});
+
+// Parameters in ?set= order, e.g. bbands:20:2 is period 20 at 2 standard deviations
+const PARAMS: Record<IndicatorName, ParamRule[]> = {
+  rsi: [periodRule("period", 14)],
+  sma: [periodRule("period", 20)],
+  ema: [periodRule("period", 20)],
+  macd: [periodRule("fast period", 12), periodRule("slow period", 26), periodRule("signal period", 9)],
+  bbands: [periodRule("period", 20), { label: "width", default: 2, min: 0.5, max: 5, integer: false }],
+  atr: [periodRule("period", 14)],
+  stoch: [periodRule("%K period", 14), periodRule("%D period", 3)],
+  obv: [],
+  vwap: [periodRule("period", 20)],
+  adx: [periodRule("period", 14)],
+};
+
+export const INDICATOR_NAMES = Object.keys(PARAMS) as IndicatorName[];
+
+// Keeps one request from asking for hundreds of series
+export const MAX_INDICATORS = 12;
+
+export type IndicatorSetQuery =
+  | { specs: IndicatorSpec[]; error?: undefined }
+  | { error: string; message: string };
+
+function isIndicatorName(name: string): name is IndicatorName {
+  return (INDICATOR_NAMES as string[]).includes(name);
+}
+
+/**
+ * Reads ?set=sma:50,ema:20,macd,bbands:20:2; omitted parameters take their defaults
+ * and repeated entries are dropped
+ */
+export function parseIndicatorSet(input: string | null, fallback: string = "rsi"): IndicatorSetQuery {
+  const tokens = (input ?? fallback)
+    .split(",")
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (tokens.length === 0) {
+    return { error: "Invalid indicator set", message: "set must list at least one indicator" };
+  }
+  if (tokens.length > MAX_INDICATORS) {
+    return { error: "Invalid indicator set", message: `set can list at most ${MAX_INDICATORS} indicators` };
+  }
+
+  const specs = new Map<string, IndicatorSpec>();
+  for (const token of tokens) {
+    const [name, ...rawParams] = token.split(":");
+    if (!isIndicatorName(name)) {
+      return {
+        error: "Invalid indicator set",
+        message: `Unknown indicator "${name}"; expected one of ${INDICATOR_NAMES.join(", ")}`,
+      };
+    }
+
+    const rules = PARAMS[name];
+    if (rawParams.length > rules.length) {
+      return {
+        error: "Invalid indicator set",
+        message: rules.length === 0
+          ? `${name} takes no parameters`
+          : `${name} takes at most ${rules.length} parameters (${rules.map((rule) => rule.label).join(", ")})`,
+      };
+    }
+
+    const params: number[] = [];
+    for (const [i, rule] of rules.entries()) {
+      const raw = rawParams[i];
+      const value = raw === undefined || raw === "" ? rule.default : Number(raw);
+      if (!Number.isFinite(value) || value < rule.min || value > rule.max || (rule.integer && !Number.isInteger(value))) {
+        return {
+          error: "Invalid indicator set",
+          message: `${name} ${rule.label} must be ${rule.integer ? "a whole number" : "a number"} from ${rule.min} to ${rule.max}`,
+        };
+      }
+      params.push(value);
+    }
+
+    if (name === "macd" && params[0] >= params[1]) {
+      return { error: "Invalid indicator set", message: "macd fast period must be shorter than its slow period" };
+    }
+
+    specs.set(token, { key: token, name, params });
+  }
+
+  return { specs: [...specs.values()] };
+}
+
+/**
+ * Reads a lone RSI period such as ?rsiPeriod=21 under the same limits as rsi:21 in ?set=,
+ * returning the fallback when absent and null when out of range
+ */
+export function parseRSIPeriod(input: string | null, fallback: number = PARAMS.rsi[0].default): number | null {
+  if (input === null) return fallback;
+  const { min, max } = PARAMS.rsi[0];
+  const value = Number(input);
+  return input.trim() !== "" && Number.isInteger(value) && value >= min && value <= max ? value : null;
+}
+
+/**
+ * Candles needed before the indicator produces its first value
+ */
+export function requiredCandles(spec: IndicatorSpec): number {
+  const [first = 0, second = 0, third = 0] = spec.params;
+  switch (spec.name) {
+    case "rsi":
+    case "atr":
+      return first + 1;
+    case "sma":
+    case "ema":
+    case "bbands":
+    case "vwap":
+      return first;
+    case "macd":
+      return second + third - 1;
+    case "stoch":
+      return first + second - 1;
+    case "adx":
+      return 2 * first;
+    case "obv":
+      return 2;
+  }
+}
+
+// Enough precision for FX rates without float noise
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 1e4) / 1e4;
+}
+
+function empty(length: number): Series {
+  return new Array<number | null>(length).fill(null);
+}
+
+export function sma(values: Series, period: number): Series {
+  const result = empty(values.length);
+  let sum = 0;
+  let count = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) {
+      // A gap restarts the window
+      sum = 0;
+      count = 0;
+      continue;
+    }
+    sum += value;
+    count++;
+    if (count > period) {
+      sum -= values[i - period]!;
+      count = period;
+    }
+    if (count === period) {
+      result[i] = sum / period;
+    }
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average seeded with the SMA of its first period values; leading nulls
+ * (e.g. the MACD line before it starts) are skipped
+ */
+export function ema(values: Series, period: number): Series {
+  const result = empty(values.length);
+  const start = values.findIndex((value) => value !== null);
+  if (start === -1 || values.length - start < period) return result;
+
+  const k = 2 / (period + 1);
+  let seed = 0;
+  for (let i = start; i < start + period; i++) {
+    seed += values[i] ?? 0;
+  }
+  let previous = seed / period;
+  result[start + period - 1] = previous;
+
+  for (let i = start + period; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) continue;
+    previous = value * k + previous * (1 - k);
+    result[i] = previous;
+  }
+  return result;
+}
+
+/**
+ * Wilder's RSI: the first averages are simple means of the first period changes, then smoothed
+ */
+export function rsi(closes: number[], period: number = 14): Series {
+  const result = empty(closes.length);
+  if (closes.length < period + 1) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain += Math.max(change, 0) / period;
+    avgLoss += Math.max(-change, 0) / period;
+  }
+
+  const toRsi = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+}
+
+export function macd(closes: number[], fast: number = 12, slow: number = 26, signalPeriod: number = 9) {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line = closes.map((_, i) => {
+    const a = fastEma[i];
+    const b = slowEma[i];
+    return a === null || b === null ? null : a - b;
+  });
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, i) => {
+    const s = signal[i];
+    return value === null || s === null ? null : value - s;
+  });
+  return { macd: line, signal, histogram };
+}
+
+/**
+ * Middle band is the SMA; the outer bands sit width population standard deviations away
+ */
+export function bollingerBands(closes: number[], period: number = 20, width: number = 2) {
+  const middle = sma(closes, period);
+  const upper = empty(closes.length);
+  const lower = empty(closes.length);
+
+  for (let i = period - 1; i < closes.length; i++) {
+    const mean = middle[i];
+    if (mean === null) continue;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += (closes[j] - mean) ** 2 / period;
+    }
+    const deviation = Math.sqrt(variance);
+    upper[i] = mean + width * deviation;
+    lower[i] = mean - width * deviation;
+  }
+  return { upper, middle, lower };
+}
+
+function trueRange(candles: Candle[], i: number): number {
+  const { high, low } = candles[i];
+  if (i === 0) return high - low;
+  const previousClose = candles[i - 1].close;
+  return Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose));
+}
+
+/**
+ * Wilder's average true range, starting from the mean of the first period true ranges
+ */
+export function atr(candles: Candle[], period: number = 14): Series {
+  const result = empty(candles.length);
+  if (candles.length < period + 1) return result;
+
+  let average = 0;
+  for (let i = 1; i <= period; i++) {
+    average += trueRange(candles, i) / period;
+  }
+  result[period] = average;
+
+  for (let i = period + 1; i < candles.length; i++) {
+    average = (average * (period - 1) + trueRange(candles, i)) / period;
+    result[i] = average;
+  }
+  return result;
+}
+
+/**
+ * Slow stochastic: %K is where the close sits in the kPeriod high-low range, %D its dPeriod SMA
+ */
+export function stochastic(candles: Candle[], kPeriod: number = 14, dPeriod: number = 3) {
+  const k = empty(candles.length);
+
+  for (let i = kPeriod - 1; i < candles.length; i++) {
+    let highest = -Infinity;
+    let lowest = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highest = Math.max(highest, candles[j].high);
+      lowest = Math.min(lowest, candles[j].low);
+    }
+    // A flat range has no position in it; call it the middle
+    k[i] = highest === lowest ? 50 : ((candles[i].close - lowest) / (highest - lowest)) * 100;
+  }
+  return { k, d: sma(k, dPeriod) };
+}
+
+export function obv(candles: Candle[]): Series {
+  const result = empty(candles.length);
+  let total = 0;
+
+  for (let i = 0; i < candles.length; i++) {
+    if (i > 0) {
+      const change = candles[i].close - candles[i - 1].close;
+      total += change > 0 ? candles[i].volume : change < 0 ? -candles[i].volume : 0;
+    }
+    result[i] = total;
+  }
+  return result;
+}
+
+/**
+ * Rolling volume-weighted average of the typical price over period candles (daily candles have
+ * no session to anchor to); null while no volume traded, as for indices and FX
+ */
+export function vwap(candles: Candle[], period: number = 20): Series {
+  const result = empty(candles.length);
+  let weighted = 0;
+  let volume = 0;
+
+  for (let i = 0; i < candles.length; i++) {
+    const { high, low, close } = candles[i];
+    weighted += ((high + low + close) / 3) * candles[i].volume;
+    volume += candles[i].volume;
+    if (i >= period) {
+      const dropped = candles[i - period];
+      weighted -= ((dropped.high + dropped.low + dropped.close) / 3) * dropped.volume;
+      volume -= dropped.volume;
+    }
+    if (i >= period - 1 && volume > 0) {
+      result[i] = weighted / volume;
+    }
+  }
+  return result;
+}
+
+/**
+ * Wilder's ADX with the +DI/-DI lines it is built from
+ */
+export function adx(candles: Candle[], period: number = 14) {
+  const plusDi = empty(candles.length);
+  const minusDi = empty(candles.length);
+  const result = empty(candles.length);
+  if (candles.length < period + 1) return { adx: result, plusDi, minusDi };
+
+  let smoothedTr = 0;
+  let smoothedPlus = 0;
+  let smoothedMinus = 0;
+  const dx: number[] = [];
+
+  for (let i = 1; i < candles.length; i++) {
+    const up = candles[i].high - candles[i - 1].high;
+    const down = candles[i - 1].low - candles[i].low;
+    const plusDm = up > down && up > 0 ? up : 0;
+    const minusDm = down > up && down > 0 ? down : 0;
+    const tr = trueRange(candles, i);
+
+    if (i <= period) {
+      smoothedTr += tr;
+      smoothedPlus += plusDm;
+      smoothedMinus += minusDm;
+      if (i < period) continue;
+    } else {
+      smoothedTr = smoothedTr - smoothedTr / period + tr;
+      smoothedPlus = smoothedPlus - smoothedPlus / period + plusDm;
+      smoothedMinus = smoothedMinus - smoothedMinus / period + minusDm;
+    }
+
+    const plus = smoothedTr === 0 ? 0 : (smoothedPlus / smoothedTr) * 100;
+    const minus = smoothedTr === 0 ? 0 : (smoothedMinus / smoothedTr) * 100;
+    plusDi[i] = plus;
+    minusDi[i] = minus;
+    dx.push(plus + minus === 0 ? 0 : (Math.abs(plus - minus) / (plus + minus)) * 100);
+
+    if (dx.length === period) {
+      result[i] = dx.reduce((a, b) => a + b, 0) / period;
+    } else if (dx.length > period) {
+      result[i] = (result[i - 1]! * (period - 1) + dx[dx.length - 1]) / period;
+    }
+  }
+  return { adx: result, plusDi, minusDi };
+}
+
+export function getRSISignal(value: number): RSISignal {
+  if (value >= 70) return "Overbought";
+  if (value >= 60) return "Bullish";
+  if (value <= 30) return "Oversold";
+  if (value <= 40) return "Bearish";
+  return "Neutral";
+}
+
+// Price against a moving line (SMA, EMA, VWAP)
+function getTrendSignal(close: number, line: number): IndicatorSignal {
+  if (close > line) return "Bullish";
+  if (close < line) return "Bearish";
+  return "Neutral";
+}
+
+/**
+ * A crossover is the MACD line moving through its signal line on the latest candle
+ */
+export function getMACDSignal(histogram: number, previousHistogram: number | null): IndicatorSignal {
+  if (previousHistogram !== null && previousHistogram <= 0 && histogram > 0) return "Bullish crossover";
+  if (previousHistogram !== null && previousHistogram >= 0 && histogram < 0) return "Bearish crossover";
+  if (histogram > 0) return "Bullish";
+  if (histogram < 0) return "Bearish";
+  return "Neutral";
+}
+
+export function getBollingerSignal(close: number, upper: number, lower: number): IndicatorSignal {
+  if (close >= upper) return "Overbought";
+  if (close <= lower) return "Oversold";
+  return "Neutral";
+}
+
+/**
+ * ATR against its own average over the window: volatility expanding or contracting
+ */
+export function getATRSignal(value: number, average: number): IndicatorSignal {
+  if (value > average * 1.25) return "High volatility";
+  if (value < average * 0.75) return "Low volatility";
+  return "Normal volatility";
+}
+
+export function getStochasticSignal(k: number, d: number | null): IndicatorSignal {
+  if (k >= 80) return "Overbought";
+  if (k <= 20) return "Oversold";
+  if (d === null || k === d) return "Neutral";
+  return k > d ? "Bullish" : "Bearish";
+}
+
+/**
+ * OBV against its 20-candle average: volume flowing in on up days or out on down days
+ */
+export function getOBVSignal(value: number, average: number): IndicatorSignal {
+  if (value > average) return "Accumulation";
+  if (value < average) return "Distribution";
+  return "Neutral";
+}
+
+// 25 is Wilder's threshold for a trending market, under 20 is a range
+export function getADXSignal(value: number, plusDi: number, minusDi: number): IndicatorSignal {
+  if (value < 20) return "No trend";
+  if (value < 25) return "Weak trend";
+  return plusDi >= minusDi ? "Strong uptrend" : "Strong downtrend";
+}
+
+function last(series: Series): number | null {
+  return series.length > 0 ? series[series.length - 1] : null;
+}
+
+function previous(series: Series): number | null {
+  return valueAgo(series, 1);
+}
+
+/**
+ * The value candles before the latest one, null when the series doesn't reach back that far
+ */
+export function valueAgo(series: Series, candles: number): number | null {
+  const index = series.length - 1 - candles;
+  return index >= 0 ? series[index] : null;
+}
+
+/**
+ * Candles since the series last crossed zero (for the MACD histogram, the last crossover);
+ * null when it hasn't within the data
+ */
+export function candlesSinceSignChange(series: Series): number | null {
+  const latest = last(series);
+  if (latest === null || latest === 0) return null;
+
+  for (let i = series.length - 2; i >= 0; i--) {
+    const value = series[i];
+    if (value === null) return null;
+    if (Math.sign(value) !== Math.sign(latest)) return series.length - 1 - i;
+  }
+  return null;
+}
+
+function mean(series: Series): number | null {
+  const values = series.filter((value): value is number => value !== null);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+// The lines an indicator plots, by name
+function computeLines(spec: IndicatorSpec, candles: Candle[]): Record<string, Series> {
+  const closes = candles.map((candle) => candle.close);
+  const [first, second, third] = spec.params;
+
+  switch (spec.name) {
+    case "rsi":
+      return { rsi: rsi(closes, first) };
+    case "sma":
+      return { sma: sma(closes, first) };
+    case "ema":
+      return { ema: ema(closes, first) };
+    case "macd":
+      return macd(closes, first, second, third);
+    case "bbands":
+      return bollingerBands(closes, first, second);
+    case "atr":
+      return { atr: atr(candles, first) };
+    case "stoch":
+      return stochastic(candles, first, second);
+    case "obv":
+      return { obv: obv(candles) };
+    case "vwap":
+      return { vwap: vwap(candles, first) };
+    case "adx":
+      return adx(candles, first);
+  }
+}
+
+function classify(spec: IndicatorSpec, lines: Record<string, Series>, close: number): IndicatorSignal | null {
+  const [primary] = Object.values(lines);
+  const value = last(primary);
+  if (value === null) return null;
+
+  switch (spec.name) {
+    case "rsi":
+      return getRSISignal(value);
+    case "sma":
+    case "ema":
+    case "vwap":
+      return getTrendSignal(close, value);
+    case "macd": {
+      const histogram = last(lines.histogram);
+      return histogram === null ? null : getMACDSignal(histogram, previous(lines.histogram));
+    }
+    case "bbands": {
+      const upper = last(lines.upper);
+      const lower = last(lines.lower);
+      return upper === null || lower === null ? null : getBollingerSignal(close, upper, lower);
+    }
+    case "atr": {
+      const average = mean(lines.atr);
+      return average === null ? null : getATRSignal(value, average);
+    }
+    case "stoch":
+      return getStochasticSignal(value, last(lines.d));
+    case "obv": {
+      const average = last(sma(lines.obv, 20));
+      return average === null ? null : getOBVSignal(value, average);
+    }
+    case "adx": {
+      const plus = last(lines.plusDi);
+      const minus = last(lines.minusDi);
+      return plus === null || minus === null ? null : getADXSignal(value, plus, minus);
+    }
+  }
+}
+
+/**
+ * Latest reading and signal for each spec, candles oldest first. Pass the candles' timestamps
+ * to get the full series as well.
+ */
+export function computeIndicators(specs: IndicatorSpec[], candles: Candle[], timestamps?: string[]): IndicatorResult[] {
+  const close = candles.length > 0 ? candles[candles.length - 1].close : 0;
+
+  return specs.map((spec) => {
+    const lines = Object.entries(computeLines(spec, candles));
+    const valuesAt = (index: number) => Object.fromEntries(lines.map(([line, series]) => [line, round(series[index] ?? null)]));
+    return {
+      key: spec.key,
+      name: spec.name,
+      params: spec.params,
+      values: valuesAt(candles.length - 1),
+      signal: candles.length > 0 ? classify(spec, Object.fromEntries(lines), close) : null,
+      ...(timestamps && { series: timestamps.map((timestamp, i) => ({ timestamp, values: valuesAt(i) })) }),
+    };
+  });
+}
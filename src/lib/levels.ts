@@ -0,0 +1,199 @@
+// Support and resistance from OHLC candles: swing clusters, pivot points and unfilled gaps
+import { atr, type Candle } from "@/lib/indicators";
+import type { GapLevel, PivotMethod, PivotPoints, PriceLevels, SwingLevel } from "@/lib/types";
+
+// A swing high has this many lower highs on each side (a swing low, higher lows)
+const SWING_STRENGTH = 3;
+
+// Swings older than this rarely matter to the current price
+const SWING_LOOKBACK = 250;
+
+const MAX_SWING_LEVELS = 6;
+
+// Gaps smaller than this fraction of price are noise on daily candles
+const MIN_GAP_FRACTION = 0.002;
+
+const GAP_LOOKBACK = 60;
+
+const MAX_GAPS = 5;
+
+function round(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+export interface SwingPoint {
+  price: number;
+  index: number;
+}
+
+/**
+ * Local extremes: candles whose high (or low) beats strength candles on either side
+ */
+export function findSwingPoints(candles: Candle[], strength: number = SWING_STRENGTH) {
+  const highs: SwingPoint[] = [];
+  const lows: SwingPoint[] = [];
+
+  for (let i = strength; i < candles.length - strength; i++) {
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - strength; j <= i + strength && (isHigh || isLow); j++) {
+      if (j === i) continue;
+      if (candles[j].high >= candles[i].high) isHigh = false;
+      if (candles[j].low <= candles[i].low) isLow = false;
+    }
+    if (isHigh) highs.push({ price: candles[i].high, index: i });
+    if (isLow) lows.push({ price: candles[i].low, index: i });
+  }
+  return { highs, lows };
+}
+
+/**
+ * Groups swing points within tolerance of each other into levels; the more swings a level
+ * has turned, the stronger it is
+ */
+export function clusterSwings(
+  points: SwingPoint[],
+  tolerance: number,
+  lastClose: number,
+  timestamps: string[]
+): SwingLevel[] {
+  const sorted = [...points].sort((a, b) => a.price - b.price);
+  const clusters: SwingPoint[][] = [];
+
+  for (const point of sorted) {
+    const current = clusters[clusters.length - 1];
+    const center = current ? current.reduce((sum, p) => sum + p.price, 0) / current.length : 0;
+    if (current && point.price - center <= tolerance) {
+      current.push(point);
+    } else {
+      clusters.push([point]);
+    }
+  }
+
+  return clusters.map((cluster) => {
+    const price = cluster.reduce((sum, p) => sum + p.price, 0) / cluster.length;
+    const latest = Math.max(...cluster.map((p) => p.index));
+    return {
+      price: round(price),
+      kind: price < lastClose ? "support" : "resistance",
+      touches: cluster.length,
+      lastTouched: timestamps[latest],
+    };
+  });
+}
+
+/**
+ * Pivot points for the next session from one candle's high, low and close
+ */
+export function pivotPoints(high: number, low: number, close: number, method: PivotMethod): PivotPoints {
+  const pivot = (high + low + close) / 3;
+  const range = high - low;
+
+  let resistance: number[];
+  let support: number[];
+  switch (method) {
+    case "classic":
+      resistance = [2 * pivot - low, pivot + range, high + 2 * (pivot - low)];
+      support = [2 * pivot - high, pivot - range, low - 2 * (high - pivot)];
+      break;
+    case "fibonacci":
+      resistance = [0.382, 0.618, 1].map((ratio) => pivot + ratio * range);
+      support = [0.382, 0.618, 1].map((ratio) => pivot - ratio * range);
+      break;
+    case "camarilla":
+      // Camarilla levels hang off the close rather than the pivot
+      resistance = [12, 6, 4, 2].map((divisor) => close + (range * 1.1) / divisor);
+      support = [12, 6, 4, 2].map((divisor) => close - (range * 1.1) / divisor);
+      break;
+  }
+
+  return { method, pivot: round(pivot), resistance: resistance.map(round), support: support.map(round) };
+}
+
+/**
+ * Price gaps between consecutive candles that later trading hasn't closed, newest first.
+ * A partly filled gap shrinks to the part still open.
+ */
+export function findOpenGaps(candles: Candle[], timestamps: string[], lookback: number = GAP_LOOKBACK): GapLevel[] {
+  const gaps: GapLevel[] = [];
+  const start = Math.max(1, candles.length - lookback);
+
+  for (let i = start; i < candles.length; i++) {
+    const previous = candles[i - 1];
+    const candle = candles[i];
+    let gap: GapLevel | null = null;
+
+    if (candle.low > previous.high) {
+      gap = { direction: "up", top: candle.low, bottom: previous.high, timestamp: timestamps[i] };
+    } else if (candle.high < previous.low) {
+      gap = { direction: "down", top: previous.low, bottom: candle.high, timestamp: timestamps[i] };
+    }
+    if (!gap || gap.top - gap.bottom < candle.close * MIN_GAP_FRACTION) continue;
+
+    // Later candles eat into the gap from the side price returns from
+    for (let j = i + 1; j < candles.length && gap.top > gap.bottom; j++) {
+      if (gap.direction === "up") {
+        gap.top = Math.min(gap.top, candles[j].low);
+      } else {
+        gap.bottom = Math.max(gap.bottom, candles[j].high);
+      }
+    }
+
+    if (gap.top > gap.bottom) {
+      gaps.push({ ...gap, top: round(gap.top), bottom: round(gap.bottom) });
+    }
+  }
+
+  return gaps.reverse().slice(0, MAX_GAPS);
+}
+
+/**
+ * Swing clusters, pivot points and open gaps from daily candles, oldest first. The latest candle
+ * is treated as the session in progress, so pivots come from the one before it.
+ */
+export function computePriceLevels(candles: Candle[], timestamps: string[]): PriceLevels | null {
+  if (candles.length < 2) return null;
+
+  const lastClose = candles[candles.length - 1].close;
+
+  // Swings closer together than half a day's typical range are the same level
+  const atrSeries = atr(candles, 14);
+  const latestAtr = atrSeries[atrSeries.length - 1];
+  const tolerance = latestAtr !== null ? latestAtr * 0.5 : lastClose * 0.01;
+
+  const offset = Math.max(0, candles.length - SWING_LOOKBACK);
+  const { highs, lows } = findSwingPoints(candles.slice(offset));
+  const swings = clusterSwings(
+    [...highs, ...lows].map((point) => ({ ...point, index: point.index + offset })),
+    tolerance,
+    lastClose,
+    timestamps
+  )
+    // Strongest first, recency breaking ties, then back in price order
+    .sort((a, b) => b.touches - a.touches || b.lastTouched.localeCompare(a.lastTouched))
+    .slice(0, MAX_SWING_LEVELS)
+    .sort((a, b) => b.price - a.price);
+
+  const previous = candles[candles.length - 2];
+  const pivots = (["classic", "fibonacci", "camarilla"] as const).map((method) =>
+    pivotPoints(previous.high, previous.low, previous.close, method)
+  );
+
+  const gaps = findOpenGaps(candles, timestamps);
+
+  const prices = [
+    ...swings.map((level) => level.price),
+    ...pivots.flatMap((set) => [set.pivot, ...set.resistance, ...set.support]),
+    ...gaps.flatMap((gap) => [gap.top, gap.bottom]),
+  ];
+  const below = prices.filter((price) => price < lastClose);
+  const above = prices.filter((price) => price > lastClose);
+
+  return {
+    swings,
+    pivots,
+    gaps,
+    nearestSupport: below.length > 0 ? Math.max(...below) : null,
+    nearestResistance: above.length > 0 ? Math.min(...above) : null,
+  };
+}
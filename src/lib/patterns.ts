@@ -0,0 +1,247 @@
+// Candlestick pattern recognition over OHLC candles: pure functions, no I/O
+import type { Candle } from "@/lib/indicators";
+import type { CandlePattern, CandlePatternName } from "@/lib/types";
+
+export type PatternCandle = Candle & { timestamp: string };
+
+// Closes compared to decide whether a reversal pattern has anything to reverse
+const TREND_LOOKBACK = 5;
+
+// Candles averaged to judge whether a body is long
+const BODY_LOOKBACK = 10;
+
+// length is how many candles the pattern spans, ending at the one that completes it
+const PATTERNS: Record<CandlePatternName, Omit<CandlePattern, "index" | "timestamp" | "pattern">> = {
+  doji: {
+    length: 1,
+    name: "Doji",
+    bias: "neutral",
+    description: "Open and close almost equal: buyers and sellers are in balance, often before a turn.",
+  },
+  hammer: {
+    length: 1,
+    name: "Hammer",
+    bias: "bullish",
+    description: "After a decline, sellers pushed price down but buyers closed it near the high.",
+  },
+  "hanging-man": {
+    length: 1,
+    name: "Hanging Man",
+    bias: "bearish",
+    description: "After a rally, a long lower shadow shows sellers testing the move; needs confirmation.",
+  },
+  "inverted-hammer": {
+    length: 1,
+    name: "Inverted Hammer",
+    bias: "bullish",
+    description: "After a decline, buyers pushed price well up before it settled; a possible bottom.",
+  },
+  "shooting-star": {
+    length: 1,
+    name: "Shooting Star",
+    bias: "bearish",
+    description: "After a rally, price spiked up and was sold back down to near the open.",
+  },
+  "bullish-engulfing": {
+    length: 2,
+    name: "Bullish Engulfing",
+    bias: "bullish",
+    description: "A rising candle swallows the previous falling one: buyers took control.",
+  },
+  "bearish-engulfing": {
+    length: 2,
+    name: "Bearish Engulfing",
+    bias: "bearish",
+    description: "A falling candle swallows the previous rising one: sellers took control.",
+  },
+  "bullish-harami": {
+    length: 2,
+    name: "Bullish Harami",
+    bias: "bullish",
+    description: "A small rising candle inside a long falling one: selling is losing momentum.",
+  },
+  "bearish-harami": {
+    length: 2,
+    name: "Bearish Harami",
+    bias: "bearish",
+    description: "A small falling candle inside a long rising one: buying is losing momentum.",
+  },
+  "piercing-line": {
+    length: 2,
+    name: "Piercing Line",
+    bias: "bullish",
+    description: "Opens below the previous low, then closes above the middle of the prior falling candle.",
+  },
+  "dark-cloud-cover": {
+    length: 2,
+    name: "Dark Cloud Cover",
+    bias: "bearish",
+    description: "Opens above the previous high, then closes below the middle of the prior rising candle.",
+  },
+  "morning-star": {
+    length: 3,
+    name: "Morning Star",
+    bias: "bullish",
+    description: "A long fall, a small indecisive candle, then a strong rise: a three-candle bottom.",
+  },
+  "evening-star": {
+    length: 3,
+    name: "Evening Star",
+    bias: "bearish",
+    description: "A long rise, a small indecisive candle, then a strong fall: a three-candle top.",
+  },
+  "three-white-soldiers": {
+    length: 3,
+    name: "Three White Soldiers",
+    bias: "bullish",
+    description: "Three long rising candles, each closing higher: steady buying pressure.",
+  },
+  "three-black-crows": {
+    length: 3,
+    name: "Three Black Crows",
+    bias: "bearish",
+    description: "Three long falling candles, each closing lower: steady selling pressure.",
+  },
+};
+
+function body(candle: Candle): number {
+  return Math.abs(candle.close - candle.open);
+}
+
+function range(candle: Candle): number {
+  return candle.high - candle.low;
+}
+
+function upperShadow(candle: Candle): number {
+  return candle.high - Math.max(candle.open, candle.close);
+}
+
+function lowerShadow(candle: Candle): number {
+  return Math.min(candle.open, candle.close) - candle.low;
+}
+
+function isRising(candle: Candle): boolean {
+  return candle.close > candle.open;
+}
+
+function isFalling(candle: Candle): boolean {
+  return candle.close < candle.open;
+}
+
+function midpoint(candle: Candle): number {
+  return (candle.open + candle.close) / 2;
+}
+
+type Trend = "up" | "down" | null;
+
+// Direction of the closes leading into candle index, not including it
+function trendBefore(candles: Candle[], index: number): Trend {
+  const from = index - 1 - TREND_LOOKBACK;
+  if (from < 0) return null;
+  const change = candles[index - 1].close - candles[from].close;
+  if (change > 0) return "up";
+  if (change < 0) return "down";
+  return null;
+}
+
+function averageBody(candles: Candle[], index: number): number {
+  const window = candles.slice(Math.max(0, index - BODY_LOOKBACK), index);
+  return window.length > 0 ? window.reduce((sum, candle) => sum + body(candle), 0) / window.length : body(candles[index]);
+}
+
+// Patterns completed by candle i
+function matchAt(candles: Candle[], i: number): CandlePatternName[] {
+  const matches: CandlePatternName[] = [];
+  const current = candles[i];
+  const currentRange = range(current);
+  if (currentRange <= 0) return matches;
+
+  const trend = trendBefore(candles, i);
+  const longBody = averageBody(candles, i);
+  const isDoji = body(current) <= currentRange * 0.1;
+
+  if (isDoji) {
+    matches.push("doji");
+  } else {
+    // Small body at one end of the range with a shadow at least twice its size
+    const hammerShape = lowerShadow(current) >= 2 * body(current) && upperShadow(current) <= currentRange * 0.15;
+    const invertedShape = upperShadow(current) >= 2 * body(current) && lowerShadow(current) <= currentRange * 0.15;
+    if (hammerShape && trend === "down") matches.push("hammer");
+    if (hammerShape && trend === "up") matches.push("hanging-man");
+    if (invertedShape && trend === "down") matches.push("inverted-hammer");
+    if (invertedShape && trend === "up") matches.push("shooting-star");
+  }
+
+  if (i >= 1) {
+    const prior = candles[i - 1];
+
+    if (isFalling(prior) && isRising(current) && trend !== "up") {
+      if (current.open <= prior.close && current.close >= prior.open && body(current) > body(prior)) {
+        matches.push("bullish-engulfing");
+      } else if (body(prior) >= longBody && current.open >= prior.close && current.close <= prior.open) {
+        matches.push("bullish-harami");
+      } else if (current.open < prior.low && current.close > midpoint(prior) && current.close < prior.open) {
+        matches.push("piercing-line");
+      }
+    }
+
+    if (isRising(prior) && isFalling(current) && trend !== "down") {
+      if (current.open >= prior.close && current.close <= prior.open && body(current) > body(prior)) {
+        matches.push("bearish-engulfing");
+      } else if (body(prior) >= longBody && current.open <= prior.close && current.close >= prior.open) {
+        matches.push("bearish-harami");
+      } else if (current.open > prior.high && current.close < midpoint(prior) && current.close > prior.open) {
+        matches.push("dark-cloud-cover");
+      }
+    }
+  }
+
+  if (i >= 2) {
+    const [first, middle] = [candles[i - 2], candles[i - 1]];
+    const smallMiddle = body(middle) <= body(first) * 0.3;
+
+    if (isFalling(first) && body(first) >= longBody && smallMiddle && isRising(current)
+      && Math.max(middle.open, middle.close) < first.close && current.close > midpoint(first)) {
+      matches.push("morning-star");
+    }
+    if (isRising(first) && body(first) >= longBody && smallMiddle && isFalling(current)
+      && Math.min(middle.open, middle.close) > first.close && current.close < midpoint(first)) {
+      matches.push("evening-star");
+    }
+
+    const three = [first, middle, current];
+    // Each candle long, opening inside the previous body and closing near its extreme
+    const soldiers = three.every((candle) => isRising(candle) && body(candle) >= longBody * 0.7
+      && upperShadow(candle) <= body(candle) * 0.3)
+      && three.slice(1).every((candle, k) => candle.close > three[k].close
+        && candle.open >= three[k].open && candle.open <= three[k].close);
+    const crows = three.every((candle) => isFalling(candle) && body(candle) >= longBody * 0.7
+      && lowerShadow(candle) <= body(candle) * 0.3)
+      && three.slice(1).every((candle, k) => candle.close < three[k].close
+        && candle.open <= three[k].open && candle.open >= three[k].close);
+    if (soldiers) matches.push("three-white-soldiers");
+    if (crows) matches.push("three-black-crows");
+  }
+
+  return matches;
+}
+
+/**
+ * Every pattern in the candles (oldest first), in candle order; index is the candle
+ * that completes the pattern
+ */
+export function detectCandlePatterns(candles: PatternCandle[]): CandlePattern[] {
+  const patterns: CandlePattern[] = [];
+
+  for (let i = 0; i < candles.length; i++) {
+    for (const pattern of matchAt(candles, i)) {
+      patterns.push({
+        index: i,
+        timestamp: candles[i].timestamp,
+        pattern,
+        ...PATTERNS[pattern],
+      });
+    }
+  }
+  return patterns;
+}
@@ -0,0 +1,381 @@
+import { upstreamFetch, resolveApiKey } from "@/lib/upstream";
+import { array, numeric, object, optional, record, string, type Schema } from "@/lib/schema";
+import type { EarningsTiming, OptionContract, SymbolMatch } from "@/lib/types";
+import {
+  buildIndexSnapshot,
+  parseAlphaVantagePayload,
+  parsePayload,
+  rangeStartSeconds,
+  selectExpiry,
+  surprisePercent,
+  toAssetType,
+} from "./utils";
+import {
+  ProviderError,
+  type EarningsReport,
+  type OptionChainSnapshot,
+  type ExtendedHoursTrade,
+  type HistoryOptions,
+  type MarketDataProvider,
+  type PriceBar,
+  type PriceHistory,
+  type ProviderQuote,
+} from "./types";
+
+const ALPHA_VANTAGE_BASE_URL = "https://www.alphavantage.co/query";
+
+// Alpha Vantage names its series differently for every function
+const SERIES_FUNCTIONS: Record<string, { fn: string; key: string; intraday?: string }> = {
+  "1m": { fn: "TIME_SERIES_INTRADAY", key: "Time Series (1min)", intraday: "1min" },
+  "5m": { fn: "TIME_SERIES_INTRADAY", key: "Time Series (5min)", intraday: "5min" },
+  "15m": { fn: "TIME_SERIES_INTRADAY", key: "Time Series (15min)", intraday: "15min" },
+  "1h": { fn: "TIME_SERIES_INTRADAY", key: "Time Series (60min)", intraday: "60min" },
+  "1d": { fn: "TIME_SERIES_DAILY", key: "Time Series (Daily)" },
+  "1wk": { fn: "TIME_SERIES_WEEKLY", key: "Weekly Time Series" },
+  "1mo": { fn: "TIME_SERIES_MONTHLY", key: "Monthly Time Series" },
+};
+
+// Every value arrives as a string; numeric turns "None" into null and rejects anything else non-numeric
+const globalQuoteSchema = object({
+  "Global Quote": optional(
+    object({
+      "03. high": numeric,
+      "04. low": numeric,
+      "05. price": numeric,
+      "06. volume": numeric,
+      "08. previous close": numeric,
+    })
+  ),
+});
+
+const seriesPointSchema = object({
+  "1. open": numeric,
+  "2. high": numeric,
+  "3. low": numeric,
+  "4. close": numeric,
+  "5. volume": numeric,
+});
+
+const symbolSearchSchema = object({
+  bestMatches: optional(
+    array(
+      object({
+        "1. symbol": string,
+        "2. name": optional(string),
+        "3. type": optional(string),
+        "4. region": optional(string),
+        "8. currency": optional(string),
+      })
+    )
+  ),
+});
+
+const earningsSchema = object({
+  quarterlyEarnings: optional(
+    array(
+      object({
+        fiscalDateEnding: optional(string),
+        reportedDate: optional(string),
+        reportedEPS: numeric,
+        estimatedEPS: numeric,
+        surprisePercentage: numeric,
+      })
+    )
+  ),
+});
+
+// One EARNINGS_CALENDAR CSV row; blank cells come through as ""
+const earningsCalendarRowSchema = object({
+  reportDate: string,
+  timeOfTheDay: string,
+  estimate: numeric,
+});
+
+const historicalOptionsSchema = object({
+  data: optional(
+    array(
+      object({
+        contractID: optional(string),
+        expiration: optional(string),
+        type: optional(string),
+        strike: numeric,
+        last: numeric,
+        bid: numeric,
+        ask: numeric,
+        volume: numeric,
+        open_interest: numeric,
+        implied_volatility: numeric,
+      })
+    )
+  ),
+});
+
+// Series keys are wall-clock times at the US exchanges
+const EXCHANGE_TIMEZONE = "America/New_York";
+
+const offsetFormat = new Intl.DateTimeFormat("en-US", { timeZone: EXCHANGE_TIMEZONE, timeZoneName: "longOffset" });
+
+// Minutes New York is ahead of UTC at an instant: -300 in winter, -240 under daylight saving
+function exchangeOffsetMinutes(ms: number): number {
+  const name = offsetFormat.formatToParts(ms).find((part) => part.type === "timeZoneName")?.value ?? "";
+  const match = /GMT([+-])(\d{2}):(\d{2})/.exec(name);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+// "2024-03-15" or "2024-03-15 09:35:00" in New York time, as Unix seconds
+function parseExchangeTime(key: string): number {
+  const wall = Date.parse(`${key.includes(" ") ? key.replace(" ", "T") : `${key}T00:00:00`}Z`);
+  // Guessing from the wall time read as UTC can land on the wrong side of a DST switch; the second look settles it
+  const guess = exchangeOffsetMinutes(wall);
+  const offset = exchangeOffsetMinutes(wall - guess * 60 * 1000);
+  return Math.floor((wall - offset * 60 * 1000) / 1000);
+}
+
+function getApiKey(): string {
+  const apiKey = resolveApiKey("ALPHA_VANTAGE_API_KEY");
+  if (!apiKey) {
+    throw new ProviderError("alphavantage", "Alpha Vantage API key is not set", 401);
+  }
+  return apiKey;
+}
+
+async function query<T>(params: Record<string, string>, schema: Schema<T>): Promise<T> {
+  const search = new URLSearchParams({ ...params, apikey: getApiKey() });
+  const response = await upstreamFetch(`${ALPHA_VANTAGE_BASE_URL}?${search.toString()}`, {
+    next: { revalidate: 60 },
+  });
+
+  if (!response.ok) {
+    throw new ProviderError("alphavantage", `Alpha Vantage returned ${response.status}`, response.status);
+  }
+
+  return parseAlphaVantagePayload(schema, await response.json(), params.function);
+}
+
+// Splits one CSV line, honouring double-quoted cells (company names can contain commas)
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * For the few functions that only answer in CSV (e.g. EARNINGS_CALENDAR); rows are keyed by the header line
+ */
+async function queryCsv<T>(params: Record<string, string>, rowSchema: Schema<T>): Promise<T[]> {
+  const search = new URLSearchParams({ ...params, apikey: getApiKey() });
+  const response = await upstreamFetch(`${ALPHA_VANTAGE_BASE_URL}?${search.toString()}`, {
+    next: { revalidate: 3600 },
+  });
+
+  if (!response.ok) {
+    throw new ProviderError("alphavantage", `Alpha Vantage returned ${response.status}`, response.status);
+  }
+
+  const text = (await response.text()).trim();
+
+  // Notices still come back as JSON
+  if (text.startsWith("{")) {
+    parseAlphaVantagePayload(object({}), JSON.parse(text), params.function);
+    throw new ProviderError("alphavantage", `Unexpected ${params.function} payload from alphavantage: JSON instead of CSV`, 502);
+  }
+
+  const [header, ...lines] = text.split(/\r?\n/);
+  const columns = splitCsvLine(header);
+  const rows = lines
+    .filter((line) => line.trim())
+    .map((line) => {
+      const cells = splitCsvLine(line);
+      return Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""]));
+    });
+  return parsePayload("alphavantage", array(rowSchema), rows, params.function);
+}
+
+const REPORT_TIMES: Record<string, EarningsTiming> = {
+  "pre-market": "pre-market",
+  "post-market": "after-close",
+};
+
+export const alphaVantageProvider: MarketDataProvider = {
+  name: "alphavantage",
+
+  async getQuote(symbol: string): Promise<ProviderQuote> {
+    const data = await query({ function: "GLOBAL_QUOTE", symbol }, globalQuoteSchema);
+    const quote = data["Global Quote"];
+
+    // Unknown symbols come back as an empty "Global Quote"
+    if (!quote || quote["05. price"] === null) {
+      throw new ProviderError("alphavantage", `No quote available for symbol: ${symbol}`, 404);
+    }
+
+    return {
+      symbol,
+      name: symbol,
+      price: quote["05. price"],
+      previousClose: quote["08. previous close"],
+      dayHigh: quote["03. high"],
+      dayLow: quote["04. low"],
+      volume: quote["06. volume"],
+      fiftyTwoWeekHigh: null,
+      fiftyTwoWeekLow: null,
+      assetType: null,
+      currency: null,
+      exchange: null,
+      regularSession: null,
+    };
+  },
+
+  async getHistory(symbol: string, options: HistoryOptions): Promise<PriceHistory> {
+    const series = SERIES_FUNCTIONS[options.interval] ?? SERIES_FUNCTIONS["1d"];
+    const from = rangeStartSeconds(options.range);
+    const params: Record<string, string> = {
+      function: series.fn,
+      symbol,
+      // compact only covers the latest 100 points
+      outputsize: from < Date.now() / 1000 - 100 * 24 * 60 * 60 ? "full" : "compact",
+    };
+    if (series.intraday) {
+      params.interval = series.intraday;
+    }
+
+    const [data, quote] = await Promise.all([
+      query(params, object({ [series.key]: optional(record(seriesPointSchema)) })),
+      this.getQuote(symbol),
+    ]);
+    const points = data[series.key];
+
+    if (!points) {
+      throw new ProviderError("alphavantage", `No price history available for symbol: ${symbol}`, 404);
+    }
+
+    const bars: PriceBar[] = [];
+    for (const [date, point] of Object.entries(points)) {
+      // Daily keys are plain dates, intraday keys carry a time
+      const timestamp = parseExchangeTime(date);
+      const open = point["1. open"];
+      const high = point["2. high"];
+      const low = point["3. low"];
+      const close = point["4. close"];
+
+      if (timestamp >= from && open != null && high != null && low != null && close != null) {
+        bars.push({ timestamp, open, high, low, close, volume: point["5. volume"] || 0 });
+      }
+    }
+
+    // Alpha Vantage lists newest first
+    bars.sort((a, b) => a.timestamp - b.timestamp);
+
+    // The adjusted series are premium-only, so no adjusted closes or events here
+    return { quote, bars, corporateActions: [], timezone: EXCHANGE_TIMEZONE };
+  },
+
+  async getIndexSnapshot(symbol: string, name: string) {
+    const quote = await this.getQuote(symbol);
+    return buildIndexSnapshot(quote, name);
+  },
+
+  async searchSymbols(keywords: string): Promise<SymbolMatch[]> {
+    const data = await query({ function: "SYMBOL_SEARCH", keywords }, symbolSearchSchema);
+    const matches = data.bestMatches || [];
+
+    return matches.map((match) => ({
+      symbol: match["1. symbol"],
+      name: match["2. name"] || match["1. symbol"],
+      // Only the region is reported, e.g. "United States"
+      exchange: match["4. region"] || null,
+      assetType: toAssetType(match["3. type"]),
+      currency: match["8. currency"] || null,
+    }));
+  },
+
+  async getExtendedHours(): Promise<ExtendedHoursTrade | null> {
+    // Alpha Vantage only serves regular-session quotes on the free tier
+    return null;
+  },
+
+  async getEarnings(symbol: string): Promise<EarningsReport> {
+    const [earningsResult, calendarResult] = await Promise.allSettled([
+      query({ function: "EARNINGS", symbol }, earningsSchema),
+      queryCsv({ function: "EARNINGS_CALENDAR", symbol, horizon: "3month" }, earningsCalendarRowSchema),
+    ]);
+    if (earningsResult.status === "rejected") throw earningsResult.reason;
+    // Past quarters are still worth showing when only the upcoming date is missing
+    if (calendarResult.status === "rejected") {
+      const reason = calendarResult.reason;
+      console.error(`Alpha Vantage earnings calendar failed for ${symbol}:`, reason instanceof Error ? reason.message : reason);
+    }
+    const calendar = calendarResult.status === "fulfilled" ? calendarResult.value : [];
+    const quarters = earningsResult.value.quarterlyEarnings || [];
+    const upcoming = calendar
+      .filter((row) => row.reportDate)
+      .sort((a, b) => a.reportDate.localeCompare(b.reportDate))[0];
+
+    return {
+      next: upcoming
+        ? {
+            date: upcoming.reportDate,
+            confirmed: null,
+            timing: REPORT_TIMES[upcoming.timeOfTheDay] ?? null,
+            epsEstimate: upcoming.estimate,
+            revenueEstimate: null,
+          }
+        : null,
+      history: quarters.flatMap((quarter) => {
+        if (!quarter.fiscalDateEnding) return [];
+        const epsActual = quarter.reportedEPS;
+        const epsEstimate = quarter.estimatedEPS;
+        return [
+          {
+            fiscalPeriod: quarter.fiscalDateEnding,
+            reportedDate: quarter.reportedDate || null,
+            epsActual,
+            epsEstimate,
+            surprisePercent: quarter.surprisePercentage ?? surprisePercent(epsActual, epsEstimate),
+          },
+        ];
+      }),
+    };
+  },
+
+  async getOptionChain(symbol: string, expiry?: string): Promise<OptionChainSnapshot> {
+    // Realtime options are premium-only; the free function serves the previous session's chain
+    const data = await query({ function: "HISTORICAL_OPTIONS", symbol }, historicalOptionsSchema);
+    const rows = data.data || [];
+    const chains = new Map<string, { calls: OptionContract[]; puts: OptionContract[] }>();
+
+    for (const row of rows) {
+      const strike = row.strike;
+      if (!row.expiration || !row.contractID || strike === null) continue;
+
+      const chain = chains.get(row.expiration) ?? { calls: [], puts: [] };
+      chains.set(row.expiration, chain);
+      (row.type === "put" ? chain.puts : chain.calls).push({
+        contractSymbol: row.contractID,
+        strike,
+        lastPrice: row.last,
+        bid: row.bid,
+        ask: row.ask,
+        volume: row.volume,
+        openInterest: row.open_interest,
+        impliedVolatility: row.implied_volatility,
+      });
+    }
+
+    return selectExpiry(chains, expiry);
+  },
+};
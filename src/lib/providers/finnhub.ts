@@ -0,0 +1,323 @@
+import { upstreamFetch, resolveApiKey } from "@/lib/upstream";
+import { array, nullable, number, object, optional, string, type Infer, type Schema } from "@/lib/schema";
+import type { EarningsTiming, OptionContract, SymbolMatch } from "@/lib/types";
+import {
+  buildIndexSnapshot,
+  parsePayload,
+  rangeStartSeconds,
+  selectExpiry,
+  surprisePercent,
+  toAssetType,
+} from "./utils";
+import {
+  ProviderError,
+  type EarningsReport,
+  type OptionChainSnapshot,
+  type ExtendedHoursTrade,
+  type HistoryOptions,
+  type MarketDataProvider,
+  type PriceBar,
+  type PriceHistory,
+  type ProviderQuote,
+} from "./types";
+
+const FINNHUB_BASE_URL = "https://finnhub.io/api/v1";
+
+const RESOLUTIONS: Record<string, string> = {
+  "1m": "1",
+  "5m": "5",
+  "15m": "15",
+  "1h": "60",
+  "1d": "D",
+  "1wk": "W",
+  "1mo": "M",
+};
+
+const quoteSchema = object({
+  c: number,
+  d: nullable(number),
+  dp: nullable(number),
+  h: number,
+  l: number,
+  o: number,
+  pc: number,
+  t: number,
+});
+
+const searchSchema = object({
+  count: optional(number),
+  result: optional(
+    array(
+      object({
+        description: optional(string),
+        displaySymbol: optional(string),
+        symbol: optional(string),
+        type: optional(string),
+      })
+    )
+  ),
+});
+
+const earningsCalendarSchema = object({
+  earningsCalendar: optional(
+    array(
+      object({
+        date: optional(string),
+        hour: optional(string),
+        epsEstimate: nullable(number),
+        revenueEstimate: nullable(number),
+      })
+    )
+  ),
+});
+
+const earningsSurprisesSchema = array(
+  object({
+    period: optional(string),
+    actual: nullable(number),
+    estimate: nullable(number),
+    surprisePercent: nullable(number),
+  })
+);
+
+const optionQuoteSchema = object({
+  contractName: optional(string),
+  strike: optional(number),
+  lastPrice: nullable(number),
+  bid: nullable(number),
+  ask: nullable(number),
+  volume: nullable(number),
+  openInterest: nullable(number),
+  // Percent, e.g. 27.5
+  impliedVolatility: nullable(number),
+});
+
+type FinnhubOptionQuote = Infer<typeof optionQuoteSchema>;
+
+const optionChainSchema = object({
+  data: optional(
+    array(
+      object({
+        expirationDate: optional(string),
+        options: optional(
+          object({
+            CALL: optional(array(optionQuoteSchema)),
+            PUT: optional(array(optionQuoteSchema)),
+          })
+        ),
+      })
+    )
+  ),
+});
+
+function toOptionContracts(quotes: FinnhubOptionQuote[] | undefined): OptionContract[] {
+  return (quotes || [])
+    .filter((quote) => quote.contractName && typeof quote.strike === "number")
+    .map((quote) => ({
+      contractSymbol: quote.contractName!,
+      strike: quote.strike!,
+      lastPrice: quote.lastPrice,
+      bid: quote.bid,
+      ask: quote.ask,
+      volume: quote.volume,
+      openInterest: quote.openInterest,
+      impliedVolatility: quote.impliedVolatility === null ? null : quote.impliedVolatility / 100,
+    }));
+}
+
+// How far ahead to look for the next report; companies announce about a quarter out
+const EARNINGS_LOOKAHEAD_DAYS = 100;
+
+const EARNINGS_HOURS: Record<string, EarningsTiming> = {
+  bmo: "pre-market",
+  amc: "after-close",
+};
+
+const candlesSchema = object({
+  // "ok" or "no_data"
+  s: string,
+  t: optional(array(number)),
+  o: optional(array(number)),
+  h: optional(array(number)),
+  l: optional(array(number)),
+  c: optional(array(number)),
+  v: optional(array(number)),
+});
+
+function getApiKey(): string {
+  const apiKey = resolveApiKey("FINNHUB_API_KEY");
+  if (!apiKey) {
+    throw new ProviderError("finnhub", "Finnhub API key is not set", 401);
+  }
+  return apiKey;
+}
+
+async function query<T>(path: string, params: Record<string, string>, schema: Schema<T>): Promise<T> {
+  const search = new URLSearchParams({ ...params, token: getApiKey() });
+  const response = await upstreamFetch(`${FINNHUB_BASE_URL}${path}?${search.toString()}`, {
+    next: { revalidate: 60 },
+  });
+
+  if (!response.ok) {
+    throw new ProviderError("finnhub", `Finnhub API returned ${response.status} for ${path}`, response.status);
+  }
+
+  return parsePayload("finnhub", schema, await response.json(), path);
+}
+
+export const finnhubProvider: MarketDataProvider = {
+  name: "finnhub",
+
+  async getQuote(symbol: string): Promise<ProviderQuote> {
+    const data = await query("/quote", { symbol }, quoteSchema);
+
+    // Unknown symbols come back as an all-zero quote
+    if (!data.c) {
+      throw new ProviderError("finnhub", `No quote available for symbol: ${symbol}`, 404);
+    }
+
+    return {
+      symbol,
+      name: symbol,
+      price: data.c,
+      previousClose: data.pc || null,
+      dayHigh: data.h || null,
+      dayLow: data.l || null,
+      volume: null,
+      fiftyTwoWeekHigh: null,
+      fiftyTwoWeekLow: null,
+      assetType: null,
+      currency: null,
+      exchange: null,
+      regularSession: null,
+    };
+  },
+
+  async getHistory(symbol: string, options: HistoryOptions): Promise<PriceHistory> {
+    const to = Math.floor(Date.now() / 1000);
+    const [data, quote] = await Promise.all([
+      query(
+        "/stock/candle",
+        {
+          symbol,
+          resolution: RESOLUTIONS[options.interval] ?? "D",
+          from: String(rangeStartSeconds(options.range)),
+          to: String(to),
+        },
+        candlesSchema
+      ),
+      this.getQuote(symbol),
+    ]);
+
+    if (data.s !== "ok" || !data.t) {
+      throw new ProviderError("finnhub", `No price history available for symbol: ${symbol}`, 404);
+    }
+
+    // Parallel arrays: one that doesn't line up with t would pair prices with the wrong candles
+    const { t: timestamps, o = [], h = [], l = [], c = [], v } = data;
+    const misaligned = Object.entries({ o, h, l, c }).find(([, series]) => series.length !== timestamps.length);
+    if (misaligned) {
+      const [field, series] = misaligned;
+      console.error(
+        `Schema drift in finnhub /stock/candle payload at ${field}: expected ${timestamps.length} values, got ${series.length}`
+      );
+      throw new ProviderError("finnhub", `Unexpected /stock/candle payload from finnhub: ${field} does not match t`, 502);
+    }
+
+    const bars: PriceBar[] = timestamps.map((timestamp, i) => ({
+      timestamp,
+      open: o[i],
+      high: h[i],
+      low: l[i],
+      close: c[i],
+      volume: v?.[i] ?? 0,
+    }));
+
+    // Finnhub candles are unadjusted and the split feed is premium-only
+    return { quote, bars, corporateActions: [], timezone: null };
+  },
+
+  async getIndexSnapshot(symbol: string, name: string) {
+    const quote = await this.getQuote(symbol);
+    return buildIndexSnapshot(quote, name);
+  },
+
+  async searchSymbols(keywords: string): Promise<SymbolMatch[]> {
+    const data = await query("/search", { q: keywords }, searchSchema);
+
+    // Finnhub search reports neither exchange nor currency
+    return (data.result || [])
+      .filter((match) => match.symbol)
+      .map((match) => ({
+        symbol: match.symbol!,
+        name: match.description || match.symbol!,
+        exchange: null,
+        assetType: toAssetType(match.type),
+        currency: null,
+      }));
+  },
+
+  async getExtendedHours(): Promise<ExtendedHoursTrade | null> {
+    // Finnhub only serves regular-session quotes on the free tier
+    return null;
+  },
+
+  async getEarnings(symbol: string): Promise<EarningsReport> {
+    const from = new Date();
+    const to = new Date(from.getTime() + EARNINGS_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
+    const [calendar, surprises] = await Promise.all([
+      query(
+        "/calendar/earnings",
+        {
+          symbol,
+          from: from.toISOString().slice(0, 10),
+          to: to.toISOString().slice(0, 10),
+        },
+        earningsCalendarSchema
+      ),
+      query("/stock/earnings", { symbol }, earningsSurprisesSchema),
+    ]);
+
+    // The calendar comes back newest first
+    const upcoming = (calendar.earningsCalendar || [])
+      .filter((event) => event.date)
+      .sort((a, b) => a.date!.localeCompare(b.date!))[0];
+
+    return {
+      next: upcoming
+        ? {
+            date: upcoming.date!,
+            confirmed: null,
+            timing: EARNINGS_HOURS[upcoming.hour ?? ""] ?? null,
+            epsEstimate: upcoming.epsEstimate,
+            revenueEstimate: upcoming.revenueEstimate,
+          }
+        : null,
+      history: surprises
+        .filter((quarter) => quarter.period)
+        .map((quarter) => ({
+          fiscalPeriod: quarter.period!,
+          reportedDate: null,
+          epsActual: quarter.actual,
+          epsEstimate: quarter.estimate,
+          surprisePercent: quarter.surprisePercent ?? surprisePercent(quarter.actual, quarter.estimate),
+        })),
+    };
+  },
+
+  async getOptionChain(symbol: string, expiry?: string): Promise<OptionChainSnapshot> {
+    // One call returns every expiry
+    const data = await query("/stock/option-chain", { symbol }, optionChainSchema);
+    const chains = new Map<string, { calls: OptionContract[]; puts: OptionContract[] }>();
+
+    for (const chain of data.data || []) {
+      if (!chain.expirationDate) continue;
+      chains.set(chain.expirationDate, {
+        calls: toOptionContracts(chain.options?.CALL),
+        puts: toOptionContracts(chain.options?.PUT),
+      });
+    }
+
+    return selectExpiry(chains, expiry);
+  },
+};
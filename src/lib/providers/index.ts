@@ -0,0 +1,207 @@
+import { yahooProvider } from "./yahoo";
+import { alphaVantageProvider } from "./alpha-vantage";
+import { finnhubProvider } from "./finnhub";
+import { singleFlight, flightKey } from "@/lib/single-flight";
+import { resolveApiKey } from "@/lib/upstream";
+import { getCircuitBreaker, CircuitOpenError, type ErrorOutcome } from "@/lib/circuit-breaker";
+import { ProviderError, type MarketDataProvider, type ProviderName } from "./types";
+
+export * from "./types";
+export { adjustBars, buildIndexSnapshot, parseAlphaVantagePayload, parseNumber, parsePayload } from "./utils";
+
+/**
+ * Wraps a provider so concurrent identical calls (same provider, symbol and params)
+ * share a single upstream request
+ */
+function withSingleFlight(provider: MarketDataProvider): MarketDataProvider {
+  return {
+    name: provider.name,
+    getQuote: (symbol) =>
+      singleFlight(flightKey(provider.name, symbol, { method: "quote" }), () => provider.getQuote(symbol)),
+    getHistory: (symbol, options) =>
+      singleFlight(
+        flightKey(provider.name, symbol, {
+          method: "history",
+          range: options.range,
+          interval: options.interval,
+          includePrePost: options.includePrePost ?? false,
+        }),
+        () => provider.getHistory(symbol, options)
+      ),
+    getIndexSnapshot: (symbol, name) =>
+      singleFlight(
+        flightKey(provider.name, symbol, { method: "index", name }),
+        () => provider.getIndexSnapshot(symbol, name)
+      ),
+    searchSymbols: (query) =>
+      singleFlight(flightKey(provider.name, query, { method: "search" }), () => provider.searchSymbols(query)),
+    getExtendedHours: (symbol) =>
+      singleFlight(flightKey(provider.name, symbol, { method: "extended" }), () => provider.getExtendedHours(symbol)),
+    getEarnings: (symbol) =>
+      singleFlight(flightKey(provider.name, symbol, { method: "earnings" }), () => provider.getEarnings(symbol)),
+    getOptionChain: (symbol, expiry) =>
+      singleFlight(
+        flightKey(provider.name, symbol, { method: "options", expiry: expiry ?? "nearest" }),
+        () => provider.getOptionChain(symbol, expiry)
+      ),
+  };
+}
+
+// fetch rejects with a TypeError caused by the socket error when the connection fails, and with
+// an AbortError or TimeoutError when its signal fires; a TypeError without a cause is our own bug
+function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.name === "AbortError" || error.name === "TimeoutError") return true;
+  return error instanceof TypeError && error.cause instanceof Error;
+}
+
+/**
+ * True when an error says the upstream itself is unhealthy (network, timeouts, 5xx, throttling,
+ * missing credentials) rather than that the symbol or request was bad. Errors from our own code
+ * are neither.
+ */
+export function isUpstreamFailure(error: unknown): boolean {
+  if (!(error instanceof ProviderError)) return isNetworkError(error);
+  return error.status === undefined || error.status === 429 || error.status === 401 || error.status === 403 || error.status >= 500;
+}
+
+function classifyProviderError(error: unknown): ErrorOutcome {
+  if (isUpstreamFailure(error)) return "failure";
+  return error instanceof ProviderError ? "answered" : "unrelated";
+}
+
+/**
+ * Routes every call through the provider's circuit breaker. While the circuit is open calls fail
+ * fast with a 503 ProviderError instead of waiting on a dead upstream.
+ */
+function withCircuitBreaker(provider: MarketDataProvider): MarketDataProvider {
+  const breaker = getCircuitBreaker(`provider:${provider.name}`);
+
+  const guard = async <T>(call: () => Promise<T>): Promise<T> => {
+    try {
+      return await breaker.execute(call, classifyProviderError);
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        const retryAfter = Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000));
+        throw new ProviderError(provider.name, error.message, 503, retryAfter);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    name: provider.name,
+    getQuote: (symbol) => guard(() => provider.getQuote(symbol)),
+    getHistory: (symbol, options) => guard(() => provider.getHistory(symbol, options)),
+    getIndexSnapshot: (symbol, name) => guard(() => provider.getIndexSnapshot(symbol, name)),
+    searchSymbols: (query) => guard(() => provider.searchSymbols(query)),
+    getExtendedHours: (symbol) => guard(() => provider.getExtendedHours(symbol)),
+    getEarnings: (symbol) => guard(() => provider.getEarnings(symbol)),
+    getOptionChain: (symbol, expiry) => guard(() => provider.getOptionChain(symbol, expiry)),
+  };
+}
+
+/**
+ * Tries each provider in turn, moving on only when one is unhealthy; a provider that answers
+ * "not found" is trusted. The result reports which provider served the call as `name`.
+ */
+function withFallback(chain: MarketDataProvider[]): MarketDataProvider {
+  const firstAvailable = async <T>(call: (provider: MarketDataProvider) => Promise<T>): Promise<T> => {
+    let lastError: unknown;
+    for (const [i, provider] of chain.entries()) {
+      try {
+        return await call(provider);
+      } catch (error) {
+        if (!isUpstreamFailure(error) || i === chain.length - 1) throw error;
+        console.warn(`${provider.name} unavailable, falling back to ${chain[i + 1].name}:`, error instanceof Error ? error.message : error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  };
+
+  return {
+    name: chain[0].name,
+    getQuote: (symbol) => firstAvailable((provider) => provider.getQuote(symbol)),
+    getHistory: (symbol, options) => firstAvailable((provider) => provider.getHistory(symbol, options)),
+    getIndexSnapshot: (symbol, name) => firstAvailable((provider) => provider.getIndexSnapshot(symbol, name)),
+    searchSymbols: (query) => firstAvailable((provider) => provider.searchSymbols(query)),
+    getExtendedHours: (symbol) => firstAvailable((provider) => provider.getExtendedHours(symbol)),
+    getEarnings: (symbol) => firstAvailable((provider) => provider.getEarnings(symbol)),
+    getOptionChain: (symbol, expiry) => firstAvailable((provider) => provider.getOptionChain(symbol, expiry)),
+  };
+}
+
+// Single-flight outside the breaker: callers sharing one upstream call share its one outcome,
+// and share a half-open probe instead of failing fast behind it
+const PROVIDERS: Record<ProviderName, MarketDataProvider> = {
+  yahoo: withSingleFlight(withCircuitBreaker(yahooProvider)),
+  alphavantage: withSingleFlight(withCircuitBreaker(alphaVantageProvider)),
+  finnhub: withSingleFlight(withCircuitBreaker(finnhubProvider)),
+};
+
+// Providers that only work with a key are skipped as fallbacks when it isn't set
+const PROVIDER_API_KEYS: Record<ProviderName, string | null> = {
+  yahoo: null,
+  alphavantage: "ALPHA_VANTAGE_API_KEY",
+  finnhub: "FINNHUB_API_KEY",
+};
+
+const DEFAULT_PROVIDER: ProviderName = "yahoo";
+
+function isProviderName(value: string): value is ProviderName {
+  return value in PROVIDERS;
+}
+
+function isConfigured(name: ProviderName): boolean {
+  const keyName = PROVIDER_API_KEYS[name];
+  return keyName === null || !!resolveApiKey(keyName);
+}
+
+function getPrimaryProviderName(): ProviderName {
+  const configured = process.env.MARKET_DATA_PROVIDER?.toLowerCase().trim();
+
+  if (!configured) {
+    return DEFAULT_PROVIDER;
+  }
+
+  if (!isProviderName(configured)) {
+    console.warn(`Unknown MARKET_DATA_PROVIDER "${configured}", falling back to ${DEFAULT_PROVIDER}`);
+    return DEFAULT_PROVIDER;
+  }
+
+  return configured;
+}
+
+/**
+ * Fallback order from MARKET_DATA_FALLBACK (comma-separated, "none" to disable);
+ * by default every other provider that has its API key configured
+ */
+function getFallbackProviderNames(primary: ProviderName): ProviderName[] {
+  const configured = process.env.MARKET_DATA_FALLBACK?.toLowerCase().trim();
+
+  if (configured === "none") {
+    return [];
+  }
+
+  const names = configured
+    ? configured.split(",").map((name) => name.trim()).filter(isProviderName)
+    : (Object.keys(PROVIDERS) as ProviderName[]);
+
+  return names.filter((name) => name !== primary && isConfigured(name));
+}
+
+/**
+ * Returns the market data provider selected by MARKET_DATA_PROVIDER (defaults to Yahoo),
+ * backed by the fallback providers when it is failing
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  const primary = getPrimaryProviderName();
+  const fallbacks = getFallbackProviderNames(primary);
+
+  if (fallbacks.length === 0) {
+    return PROVIDERS[primary];
+  }
+
+  return withFallback([primary, ...fallbacks].map((name) => PROVIDERS[name]));
+}
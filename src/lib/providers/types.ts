@@ -0,0 +1,134 @@
+import type {
+  AssetType,
+  EarningsQuarter,
+  MarketIndex,
+  MarketSession,
+  OptionContract,
+  SymbolMatch,
+  UpcomingEarnings,
+} from "@/lib/types";
+
+export type ProviderName = "yahoo" | "alphavantage" | "finnhub";
+
+/**
+ * Latest quote as reported by an upstream provider.
+ * Fields the provider cannot supply are null so routes can apply their own fallbacks.
+ */
+export interface ProviderQuote {
+  symbol: string;
+  name: string;
+  price: number | null;
+  previousClose: number | null;
+  dayHigh: number | null;
+  dayLow: number | null;
+  volume: number | null;
+  fiftyTwoWeekHigh: number | null;
+  fiftyTwoWeekLow: number | null;
+  assetType: AssetType | null;
+  // ISO 4217 code as the provider reports it; Yahoo uses GBp, ZAc and ILA for minor units
+  currency: string | null;
+  exchange: string | null;
+  // Unix seconds; the regular session in progress, or the last or next one while the market is closed.
+  // Null when the provider does not report trading hours
+  regularSession: { start: number; end: number } | null;
+}
+
+/**
+ * Single OHLC bar, timestamp in Unix seconds.
+ * adjClose is the split- and dividend-adjusted close when the provider reports one.
+ */
+export interface PriceBar {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  adjClose?: number;
+  // Tagged only when extended hours were requested
+  session?: MarketSession;
+}
+
+/**
+ * Last trade outside the regular session, timestamp in Unix seconds
+ */
+export interface ExtendedHoursTrade {
+  session: "pre" | "post";
+  price: number;
+  timestamp: number;
+}
+
+/**
+ * Dividend or split on its ex-date, timestamp in Unix seconds
+ */
+export interface CorporateActionEvent {
+  type: "dividend" | "split";
+  timestamp: number;
+  // Cash per share, dividends only
+  amount?: number;
+  // New shares per old share as numerator:denominator, splits only
+  numerator?: number;
+  denominator?: number;
+}
+
+export interface PriceHistory {
+  quote: ProviderQuote;
+  bars: PriceBar[];
+  corporateActions: CorporateActionEvent[];
+  // IANA time zone of the listing exchange, null when the provider doesn't report one
+  timezone: string | null;
+}
+
+export interface EarningsReport {
+  next: UpcomingEarnings | null;
+  // Most recent quarter first
+  history: EarningsQuarter[];
+}
+
+/**
+ * Contracts for one expiry, sorted by strike; expiry null when nothing is listed
+ */
+export interface OptionChainSnapshot {
+  expirations: string[];
+  expiry: string | null;
+  calls: OptionContract[];
+  puts: OptionContract[];
+}
+
+export interface HistoryOptions {
+  range: string;
+  interval: string;
+  // Pre-market and after-hours bars, intraday intervals only
+  includePrePost?: boolean;
+}
+
+export interface MarketDataProvider {
+  readonly name: ProviderName;
+  getQuote(symbol: string): Promise<ProviderQuote>;
+  getHistory(symbol: string, options: HistoryOptions): Promise<PriceHistory>;
+  getIndexSnapshot(symbol: string, name: string): Promise<MarketIndex>;
+  searchSymbols(query: string): Promise<SymbolMatch[]>;
+  // Null during the regular session, or when the provider has no extended-hours data
+  getExtendedHours(symbol: string): Promise<ExtendedHoursTrade | null>;
+  getEarnings(symbol: string): Promise<EarningsReport>;
+  // expiry is YYYY-MM-DD; omitted means the nearest one
+  getOptionChain(symbol: string, expiry?: string): Promise<OptionChainSnapshot>;
+}
+
+/**
+ * Raised by providers when the upstream call fails or returns unusable data
+ */
+export class ProviderError extends Error {
+  readonly provider: ProviderName;
+  readonly status?: number;
+  // Seconds until the provider is worth asking again, when known
+  readonly retryAfter?: number;
+
+  constructor(provider: ProviderName, message: string, status?: number, retryAfter?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
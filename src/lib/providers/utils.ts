@@ -0,0 +1,177 @@
+import { object, optional, parse, SchemaError, string, type Schema } from "@/lib/schema";
+import type { AssetType, MarketIndex, OptionContract } from "@/lib/types";
+import { ProviderError, type OptionChainSnapshot, type PriceBar, type ProviderName, type ProviderQuote } from "./types";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const RANGE_DAYS: Record<string, number> = {
+  "1d": 1,
+  "5d": 5,
+  "1mo": 31,
+  "3mo": 92,
+  "6mo": 183,
+  "1y": 366,
+  "2y": 731,
+  "5y": 1827,
+  "10y": 3653,
+};
+
+/**
+ * Converts a Yahoo-style range ("5d", "1mo", "ytd", "max") into a Unix start time
+ * for providers that take explicit from/to bounds
+ */
+export function rangeStartSeconds(range: string, now: Date = new Date()): number {
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+
+  if (range === "ytd") {
+    return Math.floor(Date.UTC(now.getUTCFullYear(), 0, 1) / 1000);
+  }
+
+  if (range === "max") {
+    return 0;
+  }
+
+  // Weekends and holidays eat into short windows, so pad them a little
+  const days = RANGE_DAYS[range] ?? 5;
+  const padding = days <= 5 ? 4 : 0;
+  return nowSeconds - (days + padding) * DAY_SECONDS;
+}
+
+/**
+ * Builds the compact ticker snapshot used by the market overview
+ */
+export function buildIndexSnapshot(quote: ProviderQuote, name: string): MarketIndex {
+  const currentPrice = quote.price || 0;
+  const previousClose = quote.previousClose || currentPrice;
+  const change = currentPrice - previousClose;
+  const changePercent = previousClose ? (change / previousClose) * 100 : 0;
+
+  return {
+    symbol: quote.symbol,
+    name,
+    price: Math.round(currentPrice * 100) / 100,
+    change: Math.round(change * 100) / 100,
+    changePercent: Math.round(changePercent * 100) / 100,
+    ...(quote.currency && { currency: quote.currency }),
+  };
+}
+
+/**
+ * Scales each bar's OHLC by adjClose / close so the series has no gaps at splits or
+ * dividends; bars without an adjusted close are returned unchanged
+ */
+export function adjustBars(bars: PriceBar[]): PriceBar[] {
+  return bars.map((bar) => {
+    if (bar.adjClose == null || bar.close === 0) return bar;
+    const factor = bar.adjClose / bar.close;
+    return {
+      ...bar,
+      open: bar.open * factor,
+      high: bar.high * factor,
+      low: bar.low * factor,
+      close: bar.adjClose,
+    };
+  });
+}
+
+// Provider type labels, lowercased: Yahoo quoteType, Alpha Vantage "3. type", Finnhub type
+const ASSET_TYPES: Record<string, AssetType> = {
+  equity: "equity",
+  "common stock": "equity",
+  adr: "equity",
+  reit: "equity",
+  etf: "etf",
+  etp: "etf",
+  index: "index",
+  currency: "currency",
+  cryptocurrency: "crypto",
+  crypto: "crypto",
+  future: "future",
+  mutualfund: "mutualfund",
+  "mutual fund": "mutualfund",
+};
+
+export function toAssetType(raw: string | undefined): AssetType {
+  return (raw && ASSET_TYPES[raw.toLowerCase().trim()]) || "other";
+}
+
+/**
+ * Parses a numeric string from a provider payload, returning null for blanks and "None"
+ */
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== "string" || value.trim() === "") {
+    return null;
+  }
+  const num = parseFloat(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Parses a provider payload against its schema. Drift is logged with the offending field and
+ * surfaces as a 502, which counts against the provider's circuit and moves on to a fallback.
+ */
+export function parsePayload<T>(provider: ProviderName, schema: Schema<T>, data: unknown, label: string): T {
+  try {
+    return parse(schema, data);
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    console.error(
+      `Schema drift in ${provider} ${label} payload at ${error.path || "(root)"}: expected ${error.expected}, got ${error.received}`
+    );
+    throw new ProviderError(provider, `Unexpected ${label} payload from ${provider}: ${error.message}`, 502);
+  }
+}
+
+// Alpha Vantage answers throttled, premium-only and rejected requests with a 200 carrying one of these
+const alphaVantageNoticeSchema = object({
+  Note: optional(string),
+  Information: optional(string),
+  "Error Message": optional(string),
+});
+
+/**
+ * parsePayload for Alpha Vantage JSON: its notices become a 429 (throttled or premium-only)
+ * or a 404 (rejected request) before the payload itself is checked
+ */
+export function parseAlphaVantagePayload<T>(schema: Schema<T>, data: unknown, label: string): T {
+  const notice = parsePayload("alphavantage", alphaVantageNoticeSchema, data, label);
+  if (notice.Note || notice.Information) {
+    throw new ProviderError("alphavantage", "Alpha Vantage rate limit reached", 429);
+  }
+  if (notice["Error Message"]) {
+    throw new ProviderError("alphavantage", `Alpha Vantage rejected the ${label} request`, 404);
+  }
+  return parsePayload("alphavantage", schema, data, label);
+}
+
+/**
+ * Earnings surprise in percent, for providers that report only actual and estimate
+ */
+export function surprisePercent(actual: number | null, estimate: number | null): number | null {
+  if (actual === null || estimate === null || estimate === 0) return null;
+  return ((actual - estimate) / Math.abs(estimate)) * 100;
+}
+
+/**
+ * Narrows a chain covering every expiry down to one, the nearest when none is requested.
+ * A requested expiry that isn't listed comes back with expiry null.
+ */
+export function selectExpiry(
+  chains: Map<string, { calls: OptionContract[]; puts: OptionContract[] }>,
+  expiry?: string
+): OptionChainSnapshot {
+  const expirations = [...chains.keys()].sort();
+  const selected = expiry ?? expirations[0];
+  const chain = selected ? chains.get(selected) : undefined;
+  const byStrike = (a: OptionContract, b: OptionContract) => a.strike - b.strike;
+
+  return {
+    expirations,
+    expiry: chain ? selected : null,
+    calls: chain ? [...chain.calls].sort(byStrike) : [],
+    puts: chain ? [...chain.puts].sort(byStrike) : [],
+  };
+}
@@ -0,0 +1,563 @@
+import { upstreamFetch } from "@/lib/upstream";
+import { array, boolean, nullable, number, object, oneOf, optional, record, string, type Infer, type Schema } from "@/lib/schema";
+import type { MarketSession, OptionContract, SymbolMatch } from "@/lib/types";
+import { buildIndexSnapshot, parsePayload, surprisePercent, toAssetType } from "./utils";
+import {
+  ProviderError,
+  type CorporateActionEvent,
+  type EarningsReport,
+  type OptionChainSnapshot,
+  type ExtendedHoursTrade,
+  type HistoryOptions,
+  type MarketDataProvider,
+  type PriceBar,
+  type PriceHistory,
+  type ProviderQuote,
+} from "./types";
+
+const YAHOO_CHART_URL = "https://query1.finance.yahoo.com/v8/finance/chart";
+const YAHOO_SEARCH_URL = "https://query1.finance.yahoo.com/v1/finance/search";
+const YAHOO_SUMMARY_URL = "https://query2.finance.yahoo.com/v10/finance/quoteSummary";
+const YAHOO_OPTIONS_URL = "https://query2.finance.yahoo.com/v7/finance/options";
+const YAHOO_CRUMB_URL = "https://query2.finance.yahoo.com/v1/test/getcrumb";
+const YAHOO_COOKIE_URL = "https://fc.yahoo.com";
+const USER_AGENT = "Mozilla/5.0 (compatible; stocky-ahh/1.0)";
+
+const tradingPeriodSchema = object({
+  start: number,
+  end: number,
+});
+
+type YahooTradingPeriod = Infer<typeof tradingPeriodSchema>;
+
+const tradingPeriodListSchema = array(array(tradingPeriodSchema));
+
+const chartMetaSchema = object({
+  symbol: optional(string),
+  longName: optional(string),
+  shortName: optional(string),
+  regularMarketPrice: optional(number),
+  chartPreviousClose: optional(number),
+  previousClose: optional(number),
+  regularMarketDayHigh: optional(number),
+  regularMarketDayLow: optional(number),
+  regularMarketVolume: optional(number),
+  fiftyTwoWeekHigh: optional(number),
+  fiftyTwoWeekLow: optional(number),
+  exchangeTimezoneName: optional(string),
+  instrumentType: optional(string),
+  currency: optional(string),
+  exchangeName: optional(string),
+  fullExchangeName: optional(string),
+  currentTradingPeriod: optional(
+    object({
+      pre: optional(tradingPeriodSchema),
+      regular: optional(tradingPeriodSchema),
+      post: optional(tradingPeriodSchema),
+    })
+  ),
+  // A plain list of regular sessions, or split by session when includePrePost is set
+  tradingPeriods: optional(
+    oneOf(
+      tradingPeriodListSchema,
+      object({
+        pre: optional(tradingPeriodListSchema),
+        regular: optional(tradingPeriodListSchema),
+        post: optional(tradingPeriodListSchema),
+      }),
+      "trading period list or sessions"
+    )
+  ),
+});
+
+type YahooChartMeta = Infer<typeof chartMetaSchema>;
+
+// Yahoo pads halted sessions with nulls
+const priceSeriesSchema = optional(array(nullable(number)));
+
+const chartResultSchema = object({
+  meta: chartMetaSchema,
+  timestamp: optional(array(number)),
+  indicators: optional(
+    object({
+      quote: optional(
+        array(
+          object({
+            open: priceSeriesSchema,
+            high: priceSeriesSchema,
+            low: priceSeriesSchema,
+            close: priceSeriesSchema,
+            volume: priceSeriesSchema,
+          })
+        )
+      ),
+      // Only present for daily and longer intervals
+      adjclose: optional(array(object({ adjclose: priceSeriesSchema }))),
+    })
+  ),
+  events: optional(
+    object({
+      dividends: optional(record(object({ amount: optional(number), date: optional(number) }))),
+      splits: optional(
+        record(object({ date: optional(number), numerator: optional(number), denominator: optional(number) }))
+      ),
+    })
+  ),
+});
+
+type YahooChartResult = Infer<typeof chartResultSchema>;
+
+// An unknown symbol comes back as a 404 with chart.error, so result is only null on odd edge cases
+const chartResponseSchema = object({
+  chart: object({
+    result: nullable(array(chartResultSchema)),
+  }),
+});
+
+const searchResponseSchema = object({
+  quotes: optional(
+    array(
+      object({
+        symbol: optional(string),
+        shortname: optional(string),
+        longname: optional(string),
+        exchDisp: optional(string),
+        exchange: optional(string),
+        quoteType: optional(string),
+      })
+    )
+  ),
+});
+
+// Yahoo wraps most quoteSummary numbers as { raw, fmt }
+const valueSchema = object({
+  raw: optional(number),
+  fmt: optional(string),
+});
+
+type YahooValue = Infer<typeof valueSchema>;
+
+const earningsSummarySchema = object({
+  calendarEvents: optional(
+    object({
+      earnings: optional(
+        object({
+          earningsDate: optional(array(valueSchema)),
+          earningsAverage: optional(valueSchema),
+          revenueAverage: optional(valueSchema),
+          isEarningsDateEstimate: optional(boolean),
+        })
+      ),
+    })
+  ),
+  earningsHistory: optional(
+    object({
+      history: optional(
+        array(
+          object({
+            quarter: optional(valueSchema),
+            epsActual: optional(valueSchema),
+            epsEstimate: optional(valueSchema),
+            // Fraction, e.g. 0.05 for a 5% beat
+            surprisePercent: optional(valueSchema),
+          })
+        )
+      ),
+    })
+  ),
+});
+
+type YahooEarningsSummary = Infer<typeof earningsSummarySchema>;
+
+const optionQuoteSchema = object({
+  contractSymbol: optional(string),
+  strike: optional(number),
+  lastPrice: optional(number),
+  bid: optional(number),
+  ask: optional(number),
+  volume: optional(number),
+  openInterest: optional(number),
+  impliedVolatility: optional(number),
+});
+
+type YahooOptionQuote = Infer<typeof optionQuoteSchema>;
+
+const optionsResponseSchema = object({
+  optionChain: object({
+    result: nullable(
+      array(
+        object({
+          // Unix seconds at midnight UTC of each expiry date
+          expirationDates: optional(array(number)),
+          options: optional(
+            array(
+              object({
+                expirationDate: optional(number),
+                calls: optional(array(optionQuoteSchema)),
+                puts: optional(array(optionQuoteSchema)),
+              })
+            )
+          ),
+        })
+      )
+    ),
+  }),
+});
+
+interface YahooSession {
+  cookie: string;
+  crumb: string;
+}
+
+// Route bundles can load this module more than once, so the session lives on globalThis
+const globalForYahoo = globalThis as unknown as {
+  stockyYahooSession?: Promise<YahooSession>;
+};
+
+/**
+ * quoteSummary and options need a consent cookie plus the crumb issued for it
+ */
+async function createSession(): Promise<YahooSession> {
+  const cookieResponse = await upstreamFetch(YAHOO_COOKIE_URL, {
+    headers: { "User-Agent": USER_AGENT },
+  });
+  const cookie = cookieResponse.headers
+    .getSetCookie()
+    .map((header) => header.split(";")[0])
+    .join("; ");
+
+  const crumbResponse = await upstreamFetch(YAHOO_CRUMB_URL, {
+    headers: { "User-Agent": USER_AGENT, Cookie: cookie },
+  });
+  if (!crumbResponse.ok) {
+    throw new ProviderError("yahoo", `Yahoo crumb request returned ${crumbResponse.status}`, crumbResponse.status);
+  }
+
+  return { cookie, crumb: (await crumbResponse.text()).trim() };
+}
+
+function getSession(renew: boolean): Promise<YahooSession> {
+  if (renew || !globalForYahoo.stockyYahooSession) {
+    const session = createSession();
+    globalForYahoo.stockyYahooSession = session;
+    // A failed handshake must not be reused by later requests
+    session.catch(() => {
+      if (globalForYahoo.stockyYahooSession === session) {
+        globalForYahoo.stockyYahooSession = undefined;
+      }
+    });
+  }
+  return globalForYahoo.stockyYahooSession!;
+}
+
+async function fetchWithCrumb(url: string, revalidate: number, renewSession: boolean = false): Promise<Response> {
+  const { cookie, crumb } = await getSession(renewSession);
+  const response = await upstreamFetch(`${url}${url.includes("?") ? "&" : "?"}crumb=${encodeURIComponent(crumb)}`, {
+    headers: { "User-Agent": USER_AGENT, Cookie: cookie },
+    next: { revalidate },
+  });
+
+  // Crumbs expire with the cookie; retry once with a fresh pair
+  if (response.status === 401 && !renewSession) {
+    return fetchWithCrumb(url, revalidate, true);
+  }
+  return response;
+}
+
+async function fetchQuoteSummary<T>(symbol: string, modules: string[], schema: Schema<T>): Promise<T> {
+  const url = `${YAHOO_SUMMARY_URL}/${encodeURIComponent(symbol)}?modules=${modules.join(",")}`;
+  const response = await fetchWithCrumb(url, 3600);
+
+  if (!response.ok) {
+    throw new ProviderError("yahoo", `Yahoo quoteSummary returned ${response.status} for symbol: ${symbol}`, response.status);
+  }
+
+  const responseSchema = object({ quoteSummary: object({ result: nullable(array(schema)) }) });
+  const data = parsePayload("yahoo", responseSchema, await response.json(), "quoteSummary");
+  const result = data.quoteSummary.result?.[0];
+  if (!result) {
+    throw new ProviderError("yahoo", `No quoteSummary data for symbol: ${symbol}`, 404);
+  }
+  return result;
+}
+
+// Yahoo's fmt is already the calendar date in the exchange's zone; raw is Unix seconds
+function toCalendarDate(value: YahooValue | undefined): string | null {
+  if (value?.fmt && /^\d{4}-\d{2}-\d{2}$/.test(value.fmt)) return value.fmt;
+  if (typeof value?.raw === "number") return new Date(value.raw * 1000).toISOString().slice(0, 10);
+  return null;
+}
+
+function toEarningsReport(summary: YahooEarningsSummary): EarningsReport {
+  const calendar = summary.calendarEvents?.earnings;
+  // Yahoo gives a window of two dates until the company confirms one
+  const nextDate = toCalendarDate(calendar?.earningsDate?.[0]);
+
+  const history = (summary.earningsHistory?.history || []).flatMap((quarter) => {
+    const fiscalPeriod = toCalendarDate(quarter.quarter);
+    if (!fiscalPeriod) return [];
+    const epsActual = quarter.epsActual?.raw ?? null;
+    const epsEstimate = quarter.epsEstimate?.raw ?? null;
+    const surprise = quarter.surprisePercent?.raw;
+    return [
+      {
+        fiscalPeriod,
+        reportedDate: null,
+        epsActual,
+        epsEstimate,
+        surprisePercent: typeof surprise === "number" ? surprise * 100 : surprisePercent(epsActual, epsEstimate),
+      },
+    ];
+  });
+
+  return {
+    next: nextDate
+      ? {
+          date: nextDate,
+          confirmed: calendar?.isEarningsDateEstimate === undefined ? null : !calendar.isEarningsDateEstimate,
+          timing: null,
+          epsEstimate: calendar?.earningsAverage?.raw ?? null,
+          revenueEstimate: calendar?.revenueAverage?.raw ?? null,
+        }
+      : null,
+    // Yahoo lists oldest first
+    history: history.sort((a, b) => b.fiscalPeriod.localeCompare(a.fiscalPeriod)),
+  };
+}
+
+function toExpiryDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+function toOptionContracts(quotes: YahooOptionQuote[] | undefined): OptionContract[] {
+  return (quotes || [])
+    .filter((quote) => quote.contractSymbol && typeof quote.strike === "number")
+    .map((quote) => ({
+      contractSymbol: quote.contractSymbol!,
+      strike: quote.strike!,
+      lastPrice: quote.lastPrice ?? null,
+      bid: quote.bid ?? null,
+      ask: quote.ask ?? null,
+      volume: quote.volume ?? null,
+      openInterest: quote.openInterest ?? null,
+      impliedVolatility: quote.impliedVolatility ?? null,
+    }))
+    .sort((a, b) => a.strike - b.strike);
+}
+
+async function fetchChart(symbol: string, options: HistoryOptions): Promise<YahooChartResult> {
+  const url = `${YAHOO_CHART_URL}/${encodeURIComponent(symbol)}?interval=${options.interval}&range=${options.range}&events=div,splits${options.includePrePost ? "&includePrePost=true" : ""}`;
+
+  const response = await upstreamFetch(url, {
+    headers: {
+      "User-Agent": USER_AGENT,
+    },
+    next: { revalidate: 60 }, // Cache for 60 seconds
+  });
+
+  if (!response.ok) {
+    throw new ProviderError("yahoo", `Yahoo API returned ${response.status} for symbol: ${symbol}`, response.status);
+  }
+
+  const data = parsePayload("yahoo", chartResponseSchema, await response.json(), "chart");
+  const result = data.chart.result?.[0];
+  if (!result) {
+    throw new ProviderError("yahoo", `No chart data for symbol: ${symbol}`, 404);
+  }
+  return result;
+}
+
+function toQuote(symbol: string, meta: YahooChartMeta): ProviderQuote {
+  return {
+    symbol,
+    name: meta.longName || meta.shortName || symbol,
+    price: meta.regularMarketPrice ?? null,
+    previousClose: meta.chartPreviousClose || meta.previousClose || null,
+    dayHigh: meta.regularMarketDayHigh ?? null,
+    dayLow: meta.regularMarketDayLow ?? null,
+    volume: meta.regularMarketVolume ?? null,
+    fiftyTwoWeekHigh: meta.fiftyTwoWeekHigh ?? null,
+    fiftyTwoWeekLow: meta.fiftyTwoWeekLow ?? null,
+    assetType: meta.instrumentType ? toAssetType(meta.instrumentType) : null,
+    currency: meta.currency ?? null,
+    exchange: meta.fullExchangeName || meta.exchangeName || null,
+    regularSession: meta.currentTradingPeriod?.regular
+      ? { start: meta.currentTradingPeriod.regular.start, end: meta.currentTradingPeriod.regular.end }
+      : null,
+  };
+}
+
+function getRegularPeriods(meta: YahooChartMeta): YahooTradingPeriod[] {
+  const periods = Array.isArray(meta.tradingPeriods) ? meta.tradingPeriods : meta.tradingPeriods?.regular;
+  const regular = periods?.flat() ?? [];
+  if (regular.length === 0 && meta.currentTradingPeriod?.regular) {
+    return [meta.currentTradingPeriod.regular];
+  }
+  return regular;
+}
+
+// Pre-market runs up to 5.5 hours ahead of the open, so anything closer than this belongs to that day
+const PRE_MARKET_WINDOW_SECONDS = 6 * 60 * 60;
+
+function sessionAt(timestamp: number, regular: YahooTradingPeriod[]): MarketSession {
+  if (regular.some((period) => timestamp >= period.start && timestamp < period.end)) {
+    return "regular";
+  }
+  const beforeOpen = regular.some(
+    (period) => timestamp < period.start && period.start - timestamp <= PRE_MARKET_WINDOW_SECONDS
+  );
+  return beforeOpen ? "pre" : "post";
+}
+
+function toBars(result: YahooChartResult, tagSessions: boolean = false): PriceBar[] {
+  const regularPeriods = tagSessions ? getRegularPeriods(result.meta) : [];
+  const timestamps = result.timestamp || [];
+  const quote = result.indicators?.quote?.[0] || {};
+  const adjclose = result.indicators?.adjclose?.[0]?.adjclose;
+  const bars: PriceBar[] = [];
+
+  for (let i = 0; i < timestamps.length; i++) {
+    const open = quote.open?.[i];
+    const high = quote.high?.[i];
+    const low = quote.low?.[i];
+    const close = quote.close?.[i];
+
+    // Yahoo pads halted sessions with nulls
+    if (open != null && high != null && low != null && close != null) {
+      bars.push({
+        timestamp: timestamps[i],
+        open,
+        high,
+        low,
+        close,
+        volume: quote.volume?.[i] || 0,
+        adjClose: adjclose?.[i] ?? undefined,
+        ...(regularPeriods.length > 0 && { session: sessionAt(timestamps[i], regularPeriods) }),
+      });
+    }
+  }
+
+  return bars;
+}
+
+function toCorporateActions(result: YahooChartResult): CorporateActionEvent[] {
+  const actions: CorporateActionEvent[] = [];
+
+  for (const dividend of Object.values(result.events?.dividends || {})) {
+    if (dividend.date != null && dividend.amount != null) {
+      actions.push({ type: "dividend", timestamp: dividend.date, amount: dividend.amount });
+    }
+  }
+
+  for (const split of Object.values(result.events?.splits || {})) {
+    if (split.date != null && split.numerator && split.denominator) {
+      actions.push({
+        type: "split",
+        timestamp: split.date,
+        numerator: split.numerator,
+        denominator: split.denominator,
+      });
+    }
+  }
+
+  return actions.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export const yahooProvider: MarketDataProvider = {
+  name: "yahoo",
+
+  async getQuote(symbol: string): Promise<ProviderQuote> {
+    const result = await fetchChart(symbol, { range: "1d", interval: "1d" });
+    return toQuote(symbol, result.meta);
+  },
+
+  async getHistory(symbol: string, options: HistoryOptions): Promise<PriceHistory> {
+    const result = await fetchChart(symbol, options);
+    return {
+      quote: toQuote(symbol, result.meta),
+      bars: toBars(result, options.includePrePost),
+      corporateActions: toCorporateActions(result),
+      timezone: result.meta.exchangeTimezoneName ?? null,
+    };
+  },
+
+  async getIndexSnapshot(symbol: string, name: string) {
+    const quote = await this.getQuote(symbol);
+    return buildIndexSnapshot(quote, name);
+  },
+
+  async searchSymbols(query: string): Promise<SymbolMatch[]> {
+    const url = `${YAHOO_SEARCH_URL}?q=${encodeURIComponent(query)}&quotesCount=10&newsCount=0`;
+    const response = await upstreamFetch(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+      },
+      next: { revalidate: 3600 },
+    });
+
+    if (!response.ok) {
+      throw new ProviderError("yahoo", `Yahoo search returned ${response.status}`, response.status);
+    }
+
+    const data = parsePayload("yahoo", searchResponseSchema, await response.json(), "search");
+    const quotes = data.quotes ?? [];
+
+    // Search does not report currencies, only the chart meta does
+    return quotes
+      .filter((quote) => quote.symbol)
+      .map((quote) => ({
+        symbol: quote.symbol!,
+        name: quote.longname || quote.shortname || quote.symbol!,
+        exchange: quote.exchDisp || quote.exchange || null,
+        assetType: toAssetType(quote.quoteType),
+        currency: null,
+      }));
+  },
+
+  async getExtendedHours(symbol: string): Promise<ExtendedHoursTrade | null> {
+    const result = await fetchChart(symbol, { range: "1d", interval: "1m", includePrePost: true });
+    const regular = result.meta.currentTradingPeriod?.regular;
+    const bars = toBars(result);
+    const last = bars[bars.length - 1];
+
+    if (!regular || !last) return null;
+
+    // The latest print tells us the session; during regular hours there is nothing extra to show
+    if (last.timestamp < regular.start) {
+      return { session: "pre", price: last.close, timestamp: last.timestamp };
+    }
+    if (last.timestamp >= regular.end) {
+      return { session: "post", price: last.close, timestamp: last.timestamp };
+    }
+    return null;
+  },
+
+  async getEarnings(symbol: string): Promise<EarningsReport> {
+    const summary = await fetchQuoteSummary(symbol, ["calendarEvents", "earningsHistory"], earningsSummarySchema);
+    return toEarningsReport(summary);
+  },
+
+  async getOptionChain(symbol: string, expiry?: string): Promise<OptionChainSnapshot> {
+    // Yahoo keys each expiry by midnight UTC of its date
+    const date = expiry ? `?date=${Date.parse(`${expiry}T00:00:00Z`) / 1000}` : "";
+    const response = await fetchWithCrumb(`${YAHOO_OPTIONS_URL}/${encodeURIComponent(symbol)}${date}`, 60);
+
+    if (!response.ok) {
+      throw new ProviderError("yahoo", `Yahoo options returned ${response.status} for symbol: ${symbol}`, response.status);
+    }
+
+    const data = parsePayload("yahoo", optionsResponseSchema, await response.json(), "options");
+    const result = data.optionChain.result?.[0];
+    if (!result) {
+      throw new ProviderError("yahoo", `No options data for symbol: ${symbol}`, 404);
+    }
+
+    const chain = result.options?.[0];
+    return {
+      expirations: (result.expirationDates || []).map(toExpiryDate),
+      expiry: chain?.expirationDate ? toExpiryDate(chain.expirationDate) : null,
+      calls: toOptionContracts(chain?.calls),
+      puts: toOptionContracts(chain?.puts),
+    };
+  },
+};
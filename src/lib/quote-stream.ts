@@ -0,0 +1,159 @@
+// Shared quote poller behind /api/stream: one upstream call per symbol per tick, fanned out to every subscriber
+import { getMarketDataProvider, type ProviderQuote } from "@/lib/providers";
+import { classifySymbol } from "@/lib/assets";
+import type { LiveQuote } from "@/lib/types";
+
+const POLL_INTERVAL_MS = 15 * 1000;
+
+// After the close the provider keeps reporting the session that just ended, so the next open isn't known yet
+const CLOSED_RECHECK_MS = 30 * 60 * 1000;
+
+export type QuoteListener = (quote: LiveQuote) => void;
+
+interface QuoteStreamState {
+  listeners: Map<string, Set<QuoteListener>>;
+  latest: Map<string, LiveQuote>;
+  // Symbols whose market is closed, and when to poll them again
+  closedUntil: Map<string, number>;
+  timer: ReturnType<typeof setInterval> | null;
+  polling: boolean;
+}
+
+// Route bundles can load this module more than once, so the poller lives on globalThis
+const globalForStream = globalThis as unknown as {
+  stockyQuoteStream?: QuoteStreamState;
+};
+
+const state = (globalForStream.stockyQuoteStream ??= {
+  listeners: new Map(),
+  latest: new Map(),
+  closedUntil: new Map(),
+  timer: null,
+  polling: false,
+});
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function toLiveQuote(symbol: string, quote: ProviderQuote, price: number): LiveQuote {
+  const assetType = quote.assetType ?? classifySymbol(symbol);
+  // FX rates move in the fourth decimal place
+  const decimals = assetType === "currency" ? 4 : 2;
+  const previousClose = quote.previousClose || price;
+  const change = price - previousClose;
+
+  return {
+    symbol,
+    price: round(price, decimals),
+    change: round(change, decimals),
+    changePercent: previousClose ? Math.round((change / previousClose) * 10000) / 100 : 0,
+    ...(quote.currency && { currency: quote.currency }),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// 0 while the market is open or its hours are unknown
+function closedUntil(quote: ProviderQuote, now: number): number {
+  if (!quote.regularSession) return 0;
+  const [start, end] = [quote.regularSession.start * 1000, quote.regularSession.end * 1000];
+  if (now < start) return start;
+  if (now >= end) return now + CLOSED_RECHECK_MS;
+  return 0;
+}
+
+async function pollSymbol(symbol: string): Promise<void> {
+  const quote = await getMarketDataProvider().getQuote(symbol);
+  const reopensAt = closedUntil(quote, Date.now());
+  if (reopensAt > 0) {
+    state.closedUntil.set(symbol, reopensAt);
+  } else {
+    state.closedUntil.delete(symbol);
+  }
+  if (quote.price === null) return;
+
+  const next = toLiveQuote(symbol, quote, quote.price);
+  const previous = state.latest.get(symbol);
+  // Outside trading hours the price sits still, so nothing goes out
+  if (previous && previous.price === next.price && previous.change === next.change) return;
+
+  state.latest.set(symbol, next);
+  for (const listener of state.listeners.get(symbol) ?? []) {
+    listener(next);
+  }
+}
+
+async function poll(): Promise<void> {
+  // A slow upstream shouldn't stack ticks on top of each other
+  if (state.polling) return;
+  state.polling = true;
+
+  try {
+    // A closed market's price won't move, so it isn't worth an upstream call every tick
+    const now = Date.now();
+    const symbols = [...state.listeners.keys()].filter((symbol) => (state.closedUntil.get(symbol) ?? 0) <= now);
+    const results = await Promise.allSettled(symbols.map(pollSymbol));
+    results.forEach((result, i) => {
+      if (result.status === "rejected") {
+        const reason = result.reason instanceof Error ? result.reason.message : result.reason;
+        console.log(`Live quote failed for ${symbols[i]}:`, reason);
+      }
+    });
+  } finally {
+    state.polling = false;
+  }
+}
+
+function stopIfIdle() {
+  if (state.listeners.size === 0 && state.timer) {
+    clearInterval(state.timer);
+    state.timer = null;
+  }
+}
+
+/**
+ * Registers a listener for price changes on the given symbols and returns the unsubscribe function.
+ * The last known quote for each symbol is replayed straight away so new subscribers don't wait a tick.
+ */
+export function subscribeQuotes(symbols: string[], listener: QuoteListener): () => void {
+  const unseen: string[] = [];
+
+  for (const symbol of symbols) {
+    let listeners = state.listeners.get(symbol);
+    if (!listeners) {
+      listeners = new Set();
+      state.listeners.set(symbol, listeners);
+    }
+    listeners.add(listener);
+
+    const latest = state.latest.get(symbol);
+    if (latest) {
+      listener(latest);
+    } else {
+      unseen.push(symbol);
+    }
+  }
+
+  if (!state.timer) {
+    state.timer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+  }
+  if (unseen.length > 0) {
+    void Promise.allSettled(unseen.map(pollSymbol));
+  }
+
+  return () => {
+    for (const symbol of symbols) {
+      const listeners = state.listeners.get(symbol);
+      if (!listeners) continue;
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        state.listeners.delete(symbol);
+        // Nobody is watching, so the next subscriber should start from a fresh quote
+        state.latest.delete(symbol);
+        state.closedUntil.delete(symbol);
+      }
+    }
+    stopIfIdle();
+  };
+}
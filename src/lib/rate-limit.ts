@@ -0,0 +1,40 @@
+import type { NextRequest } from "next/server";
+
+// Rate limiting map (in production, use Redis or similar)
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
+const RATE_LIMIT = 30; // requests per minute
+const RATE_WINDOW = 60000; // 1 minute
+
+/**
+ * Fixed-window limiter shared by the routes that hit market data upstreams
+ */
+export function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const entry = rateLimitMap.get(ip);
+
+  if (!entry || now > entry.resetTime) {
+    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_WINDOW });
+    return true;
+  }
+
+  if (entry.count >= RATE_LIMIT) {
+    return false;
+  }
+
+  entry.count++;
+  return true;
+}
+
+/**
+ * Seconds until the client's current window resets
+ */
+export function getRetryAfter(ip: string): number {
+  const entry = rateLimitMap.get(ip);
+  if (!entry) return 0;
+  return Math.max(1, Math.ceil((entry.resetTime - Date.now()) / 1000));
+}
+
+export function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get("x-forwarded-for");
+  return forwarded ? forwarded.split(",")[0] : "unknown";
+}
@@ -0,0 +1,162 @@
+// Runtime schemas for upstream payloads: turn untyped JSON into typed values, or fail naming the field that drifted
+
+/**
+ * Parses value, reporting failures against path ("chart.result[0].meta.regularMarketPrice")
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Keys whose schema accepts undefined become optional, so inferred types read like hand-written interfaces
+type OptionalKeys<S> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+export type InferObject<S> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+/**
+ * Raised for a payload that doesn't match its schema; path locates the offending field
+ */
+export class SchemaError extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(path: string, expected: string, received: string) {
+    super(`${path || "(root)"}: expected ${expected}, got ${received}`);
+    this.name = "SchemaError";
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// Short enough for a log line, specific enough to recognise the drift
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === "string") {
+    return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+  }
+  if (typeof value === "number" || typeof value === "boolean") return `${typeof value} ${value}`;
+  return typeof value;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? (path ? `${path}.${key}` : key) : `${path}[${JSON.stringify(key)}]`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// NaN and Infinity are exactly what the schemas exist to keep out
+export const number: Schema<number> = (value, path) => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  throw new SchemaError(path, "finite number", describe(value));
+};
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value === "string") return value;
+  throw new SchemaError(path, "string", describe(value));
+};
+
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value === "boolean") return value;
+  throw new SchemaError(path, "boolean", describe(value));
+};
+
+// Placeholders Alpha Vantage and Finnhub use for a value they don't have
+const MISSING_NUMBERS = new Set(["", "none", "-", "n/a", "nan"]);
+
+/**
+ * A number that may arrive as a string ("189.8400", "0.52%"); placeholders such as "None" become null.
+ * Any other text is drift, not a missing value.
+ */
+export const numeric: Schema<number | null> = (value, path) => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return number(value, path);
+  if (typeof value === "string") {
+    const text = value.trim().replace(/%$/, "");
+    if (MISSING_NUMBERS.has(text.toLowerCase())) return null;
+    const parsed = Number(text);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  throw new SchemaError(path, "numeric string", describe(value));
+};
+
+/**
+ * Absent or null both come back as undefined
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+/**
+ * Absent or null both come back as null
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === undefined || value === null ? null : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, "array", describe(value));
+    return value.map((element, index) => item(element, join(path, index)));
+  };
+}
+
+/**
+ * Checks the listed keys and drops the rest, so new upstream fields never break parsing
+ */
+export function object<S extends Record<string, Schema<unknown>>>(shape: S): Schema<InferObject<S>> {
+  return (value, path) => {
+    if (!isPlainObject(value)) throw new SchemaError(path, "object", describe(value));
+    const result: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const parsed = schema(value[key], join(path, key));
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as InferObject<S>;
+  };
+}
+
+/**
+ * An object used as a map, such as Yahoo's dividends keyed by timestamp
+ */
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path) => {
+    if (!isPlainObject(value)) throw new SchemaError(path, "object", describe(value));
+    const result: Record<string, T> = {};
+    for (const [key, element] of Object.entries(value)) {
+      result[key] = item(element, join(path, key));
+    }
+    return result;
+  };
+}
+
+/**
+ * Tries each schema in turn, for fields whose shape depends on the request
+ */
+export function oneOf<A, B>(first: Schema<A>, second: Schema<B>, expected: string): Schema<A | B> {
+  return (value, path) => {
+    try {
+      return first(value, path);
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+    }
+    try {
+      return second(value, path);
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      throw new SchemaError(path, expected, describe(value));
+    }
+  };
+}
+
+export function parse<T>(schema: Schema<T>, value: unknown): T {
+  return schema(value, "");
+}
@@ -0,0 +1,36 @@
+// Single-flight request coalescing: concurrent callers with the same key share one upstream call
+
+// Route bundles can load this module more than once, so in-flight calls live on globalThis
+const globalForFlights = globalThis as unknown as {
+  stockyInFlight?: Map<string, Promise<unknown>>;
+};
+
+const inFlight = (globalForFlights.stockyInFlight ??= new Map<string, Promise<unknown>>());
+
+/**
+ * Builds a coalescing key from provider, symbol and request params (param order does not matter)
+ */
+export function flightKey(provider: string, symbol: string, params: Record<string, unknown> = {}): string {
+  const sorted = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${String(params[key])}`)
+    .join("&");
+  return `${provider}:${symbol}:${sorted}`;
+}
+
+/**
+ * Runs fn once per key at a time. Callers arriving while it is pending get the same promise,
+ * including its rejection; the key is released as soon as it settles.
+ */
+export function singleFlight<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const promise = fn().finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, promise);
+  return promise;
+}
@@ -0,0 +1,97 @@
+// Bundled symbol list so search keeps working offline or when the provider is down
+
+import type { SymbolMatch } from "@/lib/types";
+
+export const BUNDLED_SYMBOLS: SymbolMatch[] = [
+  // US large caps
+  { symbol: "AAPL", name: "Apple Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "MSFT", name: "Microsoft Corporation", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "GOOGL", name: "Alphabet Inc. Class A", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "GOOG", name: "Alphabet Inc. Class C", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "AMZN", name: "Amazon.com, Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "NVDA", name: "NVIDIA Corporation", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "META", name: "Meta Platforms, Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "TSLA", name: "Tesla, Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "AVGO", name: "Broadcom Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "AMD", name: "Advanced Micro Devices, Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "INTC", name: "Intel Corporation", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "NFLX", name: "Netflix, Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "ADBE", name: "Adobe Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "CSCO", name: "Cisco Systems, Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "PEP", name: "PepsiCo, Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "COST", name: "Costco Wholesale Corporation", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "PYPL", name: "PayPal Holdings, Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "QCOM", name: "QUALCOMM Incorporated", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "PLTR", name: "Palantir Technologies Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "COIN", name: "Coinbase Global, Inc.", exchange: "NASDAQ", assetType: "equity", currency: "USD" },
+  { symbol: "BRK-B", name: "Berkshire Hathaway Inc. Class B", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "JPM", name: "JPMorgan Chase & Co.", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "BAC", name: "Bank of America Corporation", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "V", name: "Visa Inc.", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "MA", name: "Mastercard Incorporated", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "WMT", name: "Walmart Inc.", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "JNJ", name: "Johnson & Johnson", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "PG", name: "The Procter & Gamble Company", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "XOM", name: "Exxon Mobil Corporation", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "KO", name: "The Coca-Cola Company", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "DIS", name: "The Walt Disney Company", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "NKE", name: "NIKE, Inc.", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "ORCL", name: "Oracle Corporation", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "CRM", name: "Salesforce, Inc.", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "IBM", name: "International Business Machines Corporation", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "BA", name: "The Boeing Company", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "UBER", name: "Uber Technologies, Inc.", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "TSM", name: "Taiwan Semiconductor Manufacturing Company Limited", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  { symbol: "BABA", name: "Alibaba Group Holding Limited", exchange: "NYSE", assetType: "equity", currency: "USD" },
+  // ETFs
+  { symbol: "SPY", name: "SPDR S&P 500 ETF Trust", exchange: "NYSE Arca", assetType: "etf", currency: "USD" },
+  { symbol: "VOO", name: "Vanguard S&P 500 ETF", exchange: "NYSE Arca", assetType: "etf", currency: "USD" },
+  { symbol: "QQQ", name: "Invesco QQQ Trust", exchange: "NASDAQ", assetType: "etf", currency: "USD" },
+  { symbol: "IWM", name: "iShares Russell 2000 ETF", exchange: "NYSE Arca", assetType: "etf", currency: "USD" },
+  { symbol: "VTI", name: "Vanguard Total Stock Market ETF", exchange: "NYSE Arca", assetType: "etf", currency: "USD" },
+  { symbol: "GLD", name: "SPDR Gold Shares", exchange: "NYSE Arca", assetType: "etf", currency: "USD" },
+  { symbol: "ARKK", name: "ARK Innovation ETF", exchange: "NYSE Arca", assetType: "etf", currency: "USD" },
+  // Thai large caps
+  { symbol: "PTT.BK", name: "PTT Public Company Limited", exchange: "Thailand", assetType: "equity", currency: "THB" },
+  { symbol: "AOT.BK", name: "Airports of Thailand Public Company Limited", exchange: "Thailand", assetType: "equity", currency: "THB" },
+  { symbol: "CPALL.BK", name: "CP ALL Public Company Limited", exchange: "Thailand", assetType: "equity", currency: "THB" },
+  { symbol: "ADVANC.BK", name: "Advanced Info Service Public Company Limited", exchange: "Thailand", assetType: "equity", currency: "THB" },
+  { symbol: "KBANK.BK", name: "Kasikornbank Public Company Limited", exchange: "Thailand", assetType: "equity", currency: "THB" },
+  // Indices, currencies, crypto and futures
+  { symbol: "^GSPC", name: "S&P 500", exchange: "SNP", assetType: "index", currency: "USD" },
+  { symbol: "^DJI", name: "Dow Jones Industrial Average", exchange: "DJI", assetType: "index", currency: "USD" },
+  { symbol: "^IXIC", name: "NASDAQ Composite", exchange: "NASDAQ", assetType: "index", currency: "USD" },
+  { symbol: "^SET.BK", name: "SET Index", exchange: "Thailand", assetType: "index", currency: "THB" },
+  { symbol: "THB=X", name: "USD/THB", exchange: "CCY", assetType: "currency", currency: "THB" },
+  { symbol: "EURUSD=X", name: "EUR/USD", exchange: "CCY", assetType: "currency", currency: "USD" },
+  { symbol: "BTC-USD", name: "Bitcoin USD", exchange: "CCC", assetType: "crypto", currency: "USD" },
+  { symbol: "ETH-USD", name: "Ethereum USD", exchange: "CCC", assetType: "crypto", currency: "USD" },
+  { symbol: "GC=F", name: "Gold Futures", exchange: "COMEX", assetType: "future", currency: "USD" },
+  { symbol: "CL=F", name: "Crude Oil Futures", exchange: "NYMEX", assetType: "future", currency: "USD" },
+];
+
+// Lower is better: exact ticker, ticker prefix, start of a name word, anywhere in the name
+function matchScore(item: SymbolMatch, needle: string): number | null {
+  const symbol = item.symbol.toLowerCase();
+  const name = item.name.toLowerCase();
+
+  if (symbol === needle) return 0;
+  if (symbol.startsWith(needle)) return 1;
+  if (name.startsWith(needle) || name.includes(` ${needle}`)) return 2;
+  if (name.includes(needle)) return 3;
+  return null;
+}
+
+/**
+ * Searches the bundled list by ticker or company name
+ */
+export function searchBundledSymbols(query: string, limit: number = 10): SymbolMatch[] {
+  const needle = query.toLowerCase().trim();
+  if (!needle) return [];
+
+  return BUNDLED_SYMBOLS.map((item) => ({ item, score: matchScore(item, needle) }))
+    .filter((match): match is { item: SymbolMatch; score: number } => match.score !== null)
+    .sort((a, b) => a.score - b.score || a.item.symbol.length - b.item.symbol.length)
+    .slice(0, limit)
+    .map((match) => match.item);
+}
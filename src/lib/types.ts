@@ -1,10 +1,42 @@
+export type HistoryRange = "1d" | "5d" | "1mo" | "6mo" | "ytd" | "1y" | "5y" | "max";
+
+export type HistoryInterval = "1m" | "5m" | "15m" | "1h" | "1d" | "1wk" | "1mo";
+
+export type MarketSession = "pre" | "regular" | "post";
+
 export interface OHLCData {
-  date: string;
+  // ISO 8601 candle open time (UTC); format it in StockData.timezone
+  timestamp: string;
   open: number;
   high: number;
   low: number;
   close: number;
   volume: number;
+  // Split- and dividend-adjusted close, when the provider reports one
+  adjClose?: number;
+  // Only set when extended hours were requested
+  session?: MarketSession;
+}
+
+/**
+ * Latest pre-market or after-hours trade, change measured from the regular session price
+ */
+export interface ExtendedHoursQuote {
+  session: "pre" | "post";
+  price: number;
+  change: number;
+  changePercent: number;
+  timestamp: string;
+}
+
+export interface CorporateAction {
+  type: "dividend" | "split";
+  // ISO 8601 ex-date
+  timestamp: string;
+  // Cash per share, dividends only
+  amount?: number;
+  // e.g. "4:1", splits only
+  ratio?: string;
 }
 
 export interface StockData {
@@ -22,16 +54,238 @@ export interface StockData {
   trend: "bullish" | "bearish" | "neutral";
   fiftyTwoWeekHigh: number;
   fiftyTwoWeekLow: number;
+  range: HistoryRange;
+  interval: HistoryInterval;
+  assetType: AssetType;
+  // Quote currency as reported upstream (GBp means pence), defaults to USD when unknown
+  currency: string;
+  exchange: string | null;
+  // IANA time zone of the listing exchange, e.g. "America/New_York"
+  timezone: string;
+  // Whether ohlc and the indicators use split- and dividend-adjusted prices
+  adjusted: boolean;
+  // Whether intraday ohlc includes pre-market and after-hours candles
+  includePrePost: boolean;
+  extendedHours: ExtendedHoursQuote | null;
+  corporateActions: CorporateAction[];
+  // True when every provider failed and this is the last good response, as of fetchedAt
+  stale: boolean;
+  fetchedAt: string;
+}
+
+export type IndicatorName = "rsi" | "sma" | "ema" | "macd" | "bbands" | "atr" | "stoch" | "obv" | "vwap" | "adx";
+
+export type RSISignal = "Overbought" | "Bullish" | "Neutral" | "Bearish" | "Oversold";
+
+export type IndicatorSignal =
+  | RSISignal
+  | "Bullish crossover"
+  | "Bearish crossover"
+  | "High volatility"
+  | "Normal volatility"
+  | "Low volatility"
+  | "Accumulation"
+  | "Distribution"
+  | "Strong uptrend"
+  | "Strong downtrend"
+  | "Weak trend"
+  | "No trend";
+
+/**
+ * Every line of an indicator at one candle
+ */
+export interface IndicatorPoint {
+  // Candle open time (ISO 8601)
+  timestamp: string;
+  values: Record<string, number | null>;
+}
+
+/**
+ * One indicator from /api/stock/[symbol]/indicators; values holds the latest reading of each
+ * line it plots (macd, signal and histogram for MACD), null until there is enough history
+ */
+export interface IndicatorResult {
+  // As requested in ?set=, e.g. "sma:50"
+  key: string;
+  name: IndicatorName;
+  // Periods and band width, defaults filled in
+  params: number[];
+  values: Record<string, number | null>;
+  signal: IndicatorSignal | null;
+  // One point per daily candle, oldest first; only with ?series=true
+  series?: IndicatorPoint[];
+}
+
+export interface TechnicalIndicators {
+  adjusted: boolean;
+  // Daily RSI(14), always included
+  rsi: { value: number; signal: RSISignal } | null;
+  indicators: IndicatorResult[];
+  // Open time of the daily candle the readings are for (ISO 8601)
+  asOf: string | null;
+  // Only with ?levels=true; null when there is too little history
+  levels?: PriceLevels | null;
+  // Only with ?patterns=true; those completed in the latest candles, oldest first
+  patterns?: CandlePattern[];
+  // Only with ?timeframes=true; RSI(rsiPeriod) on daily, weekly and monthly candles
+  timeframes?: RSIReading[];
+  // Only with ?divergences=true; between daily price and RSI(rsiPeriod) swings, oldest first
+  divergences?: RSIDivergence[];
+}
+
+export type PivotMethod = "classic" | "fibonacci" | "camarilla";
+
+/**
+ * Pivot points for the current session, from the previous daily candle
+ */
+export interface PivotPoints {
+  method: PivotMethod;
+  pivot: number;
+  // R1 upwards; Camarilla goes to R4
+  resistance: number[];
+  // S1 downwards
+  support: number[];
+}
+
+/**
+ * A price where several swing highs or lows turned
+ */
+export interface SwingLevel {
+  price: number;
+  // Relative to the latest close
+  kind: "support" | "resistance";
+  touches: number;
+  // Latest swing at this level (ISO 8601)
+  lastTouched: string;
+}
+
+/**
+ * A price gap between two daily candles that hasn't been filled yet
+ */
+export interface GapLevel {
+  direction: "up" | "down";
+  // The part still open
+  top: number;
+  bottom: number;
+  // Candle that opened the gap (ISO 8601)
+  timestamp: string;
+}
+
+export interface PriceLevels {
+  // Strongest clusters, highest price first
+  swings: SwingLevel[];
+  pivots: PivotPoints[];
+  // Newest first
+  gaps: GapLevel[];
+  // Closest level of any kind below and above the latest close
+  nearestSupport: number | null;
+  nearestResistance: number | null;
+}
+
+export type CandlePatternName =
+  | "doji"
+  | "hammer"
+  | "hanging-man"
+  | "inverted-hammer"
+  | "shooting-star"
+  | "bullish-engulfing"
+  | "bearish-engulfing"
+  | "bullish-harami"
+  | "bearish-harami"
+  | "piercing-line"
+  | "dark-cloud-cover"
+  | "morning-star"
+  | "evening-star"
+  | "three-white-soldiers"
+  | "three-black-crows";
+
+export type PatternBias = "bullish" | "bearish" | "neutral";
+
+/**
+ * A candlestick pattern, located by the candle that completes it
+ */
+export interface CandlePattern {
+  // Into the candles it was detected on, oldest first
+  index: number;
+  // Open time of that candle (ISO 8601)
+  timestamp: string;
+  // Candles the pattern spans, ending at index
+  length: number;
+  pattern: CandlePatternName;
+  // "Bullish Engulfing"
+  name: string;
+  bias: PatternBias;
+  // What the pattern suggests, for tooltips
+  description: string;
+}
+
+export type RSITimeframe = "daily" | "weekly" | "monthly";
+
+/**
+ * RSI on one candle size; the latest weekly or monthly candle may still be forming
+ */
+export interface RSIReading {
+  timeframe: RSITimeframe;
+  period: number;
+  // null when there are too few candles for the period
+  value: number | null;
+  signal: RSISignal | null;
+  // Open time of the candle the reading is for (ISO 8601)
+  asOf: string | null;
+}
+
+/**
+ * A price swing taking part in a divergence, with RSI at the matching RSI swing
+ */
+export interface DivergencePoint {
+  // Into the candles it was detected on, oldest first
+  index: number;
+  timestamp: string;
+  price: number;
+  rsi: number;
+  // The RSI swing matched to it, which may sit a few candles away
+  rsiIndex: number;
+  rsiTimestamp: string;
+}
+
+/**
+ * Price and RSI swings disagreeing: a lower price low with a higher RSI low is bullish,
+ * a higher price high with a lower RSI high is bearish
+ */
+export interface RSIDivergence {
+  bias: "bullish" | "bearish";
+  start: DivergencePoint;
+  end: DivergencePoint;
 }
 
 export interface ExchangeRate {
+  // Currency converted to THB
+  base: string;
   rate: number;
   lastUpdated: string;
 }
 
+/**
+ * Stable, machine-readable error codes; `error` and `message` are for people and may change
+ */
+export type ApiErrorCode =
+  | "INVALID_SYMBOL"
+  | "INVALID_PARAMETER"
+  | "NOT_FOUND"
+  | "UNSUPPORTED_ASSET"
+  | "RATE_LIMITED"
+  | "UPSTREAM_RATE_LIMITED"
+  | "UPSTREAM_UNAVAILABLE"
+  | "UPSTREAM_ERROR"
+  | "CONFIG_MISSING"
+  | "INTERNAL_ERROR";
+
 export interface ApiError {
+  code: ApiErrorCode;
   error: string;
   message: string;
+  // Seconds to wait before retrying, mirrored in the Retry-After header
+  retryAfter?: number;
 }
 
 export interface SearchHistoryItem {
@@ -52,6 +306,126 @@ export interface MarketIndex {
   price: number;
   change: number;
   changePercent: number;
+  currency?: string;
+}
+
+export type AssetType = "equity" | "etf" | "index" | "currency" | "crypto" | "future" | "mutualfund" | "other";
+
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  assetType: AssetType;
+  currency: string | null;
+}
+
+export interface SymbolSearchResults {
+  query: string;
+  results: SymbolMatch[];
+}
+
+export interface QuoteError extends ApiError {
+  symbol: string;
+}
+
+export interface BatchQuotes {
+  quotes: MarketIndex[];
+  errors: QuoteError[];
+  lastUpdated: string;
+}
+
+/**
+ * Quote pushed by /api/stream whenever the price moves
+ */
+export interface LiveQuote {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  currency?: string;
+  // When the server saw this price (ISO 8601)
+  timestamp: string;
+}
+
+/**
+ * Company fundamentals; ratios are fractions (0.25 = 25%) and missing fields are null
+ */
+export interface CompanyProfile {
+  symbol: string;
+  name: string;
+  description: string | null;
+  exchange: string | null;
+  currency: string | null;
+  country: string | null;
+  sector: string | null;
+  industry: string | null;
+  website: string | null;
+  employees: number | null;
+  marketCap: number | null;
+  peRatio: number | null;
+  eps: number | null;
+  dividendYield: number | null;
+  beta: number | null;
+  profitMargin: number | null;
+  operatingMargin: number | null;
+  fiftyTwoWeekHigh: number | null;
+  fiftyTwoWeekLow: number | null;
+  lastUpdated: string;
+}
+
+export type EarningsTiming = "pre-market" | "after-close";
+
+/**
+ * Next scheduled report; dates are calendar days (YYYY-MM-DD) in the exchange's time zone
+ */
+export interface UpcomingEarnings {
+  date: string;
+  // Whether the company has announced the date; null when the provider doesn't say
+  confirmed: boolean | null;
+  timing: EarningsTiming | null;
+  epsEstimate: number | null;
+  revenueEstimate: number | null;
+}
+
+export interface EarningsQuarter {
+  // Fiscal quarter end (YYYY-MM-DD)
+  fiscalPeriod: string;
+  reportedDate: string | null;
+  epsActual: number | null;
+  epsEstimate: number | null;
+  // (actual - estimate) / |estimate| in percent
+  surprisePercent: number | null;
+}
+
+export interface EarningsData {
+  symbol: string;
+  next: UpcomingEarnings | null;
+  // Most recent quarter first
+  history: EarningsQuarter[];
+  lastUpdated: string;
+}
+
+export interface OptionContract {
+  contractSymbol: string;
+  strike: number;
+  lastPrice: number | null;
+  bid: number | null;
+  ask: number | null;
+  volume: number | null;
+  openInterest: number | null;
+  // Annualized, as a fraction (0.32 = 32%)
+  impliedVolatility: number | null;
+}
+
+export interface OptionChain {
+  symbol: string;
+  // Every listed expiry (YYYY-MM-DD), nearest first
+  expirations: string[];
+  // The expiry the calls and puts belong to
+  expiry: string | null;
+  calls: OptionContract[];
+  puts: OptionContract[];
+  lastUpdated: string;
 }
 
 export interface NewsItem {
@@ -0,0 +1,147 @@
+// Record-and-replay wrapper around fetch for every upstream call
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type UpstreamMode = "live" | "record" | "replay";
+
+interface UpstreamFixture {
+  url: string;
+  method: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+  recordedAt: string;
+}
+
+interface UpstreamOptions {
+  /**
+   * Stable identity for requests whose URL or body changes between runs
+   * (e.g. prompts that embed today's date)
+   */
+  fixtureKey?: string;
+}
+
+// Secrets never reach the fixture files, and date windows or session crumbs would make replays miss
+const REDACTED_PARAMS = ["apikey", "token", "crumb"];
+const VOLATILE_PARAMS = ["from", "to", "period1", "period2", "crumb"];
+
+const REPLAY_API_KEY = "replay";
+
+export function getUpstreamMode(): UpstreamMode {
+  const mode = process.env.UPSTREAM_MODE?.toLowerCase().trim();
+  if (mode === "record" || mode === "replay") {
+    return mode;
+  }
+  return "live";
+}
+
+/**
+ * Reads an API key from the environment. In replay mode a placeholder is returned
+ * so routes work without any credentials configured.
+ */
+export function resolveApiKey(envName: string): string | undefined {
+  const value = process.env[envName];
+  if (!value && getUpstreamMode() === "replay") {
+    return REPLAY_API_KEY;
+  }
+  return value;
+}
+
+function getFixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.UPSTREAM_FIXTURES_DIR || "fixtures");
+}
+
+function redactUrl(rawUrl: string): URL {
+  const url = new URL(rawUrl);
+  for (const param of REDACTED_PARAMS) {
+    if (url.searchParams.has(param)) {
+      url.searchParams.set(param, "REDACTED");
+    }
+  }
+  return url;
+}
+
+function getFixturePath(rawUrl: string, method: string, body: string, options: UpstreamOptions): string {
+  const url = redactUrl(rawUrl);
+  for (const param of VOLATILE_PARAMS) {
+    url.searchParams.delete(param);
+  }
+  url.searchParams.sort();
+
+  const identity = options.fixtureKey ?? `${method} ${url.toString()} ${body}`;
+  const hash = createHash("sha1").update(identity).digest("hex").slice(0, 12);
+  const slug = url.pathname.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "root";
+
+  return path.join(getFixturesDir(), url.hostname, `${slug}-${hash}.json`);
+}
+
+function toResponse(fixture: Pick<UpstreamFixture, "status" | "contentType" | "body">): Response {
+  // Null-body statuses reject any payload, even an empty string
+  const body = fixture.status === 204 || fixture.status === 304 ? null : fixture.body;
+  return new Response(body, {
+    status: fixture.status,
+    headers: fixture.contentType ? { "Content-Type": fixture.contentType } : undefined,
+  });
+}
+
+// A hung upstream would otherwise hold the request open until the platform kills it
+const UPSTREAM_TIMEOUT_MS = 10 * 1000;
+
+function withTimeout(init: RequestInit): RequestInit {
+  return init.signal ? init : { ...init, signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) };
+}
+
+/**
+ * Drop-in replacement for fetch on upstream APIs.
+ * UPSTREAM_MODE=record saves each response under UPSTREAM_FIXTURES_DIR (default ./fixtures),
+ * UPSTREAM_MODE=replay serves them back without touching the network.
+ */
+export async function upstreamFetch(
+  url: string,
+  init: RequestInit = {},
+  options: UpstreamOptions = {}
+): Promise<Response> {
+  const mode = getUpstreamMode();
+
+  if (mode === "live") {
+    return fetch(url, withTimeout(init));
+  }
+
+  const method = (init.method || "GET").toUpperCase();
+  const body = typeof init.body === "string" ? init.body : "";
+  const fixturePath = getFixturePath(url, method, body, options);
+
+  if (mode === "replay") {
+    try {
+      const fixture: UpstreamFixture = JSON.parse(await readFile(fixturePath, "utf8"));
+      return toResponse(fixture);
+    } catch {
+      console.warn(`No upstream fixture for ${method} ${redactUrl(url).toString()} (expected ${fixturePath})`);
+      return new Response(JSON.stringify({ error: "Fixture not found" }), {
+        status: 503,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Record: hit the network, then persist what came back
+  const response = await fetch(url, withTimeout(init));
+  const fixture: UpstreamFixture = {
+    url: redactUrl(url).toString(),
+    method,
+    status: response.status,
+    contentType: response.headers.get("content-type"),
+    body: await response.text(),
+    recordedAt: new Date().toISOString(),
+  };
+
+  try {
+    await mkdir(path.dirname(fixturePath), { recursive: true });
+    await writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+  } catch (error) {
+    console.error("Failed to record upstream fixture:", error);
+  }
+
+  return toResponse(fixture);
+}
@@ -1,18 +1,27 @@
 // Security: Input validation utilities
 
+import type { HistoryInterval, HistoryRange } from "@/lib/types";
+
+// Yahoo-style tickers: ^INDEX, FX pairs (THB=X, USDTHB=X), futures (GC=F),
+// and dotted/hyphenated equities and crypto (BRK-B, PTT.BK, BTC-USD)
+const SYMBOL_PATTERN = /^(\^[A-Z0-9]+(\.[A-Z0-9]+)?|[A-Z0-9]{1,10}=[XF]|[A-Z0-9]+([.-][A-Z0-9]+)*)$/;
+
+export const SYMBOL_FORMAT_MESSAGE = "Symbol must be a ticker like AAPL, BRK-B, ^GSPC, THB=X, GC=F or BTC-USD";
+
 /**
  * Validates and sanitizes stock symbol input
- * Only allows alphanumeric characters, dots, and hyphens
- * Max length: 10 characters
+ * Allows letters, digits, dots and hyphens, plus a leading ^ (indices)
+ * and a trailing =X or =F (FX pairs and futures)
+ * Max length: 12 characters
  */
 export function validateSymbol(input: string): string | null {
   if (!input || typeof input !== "string") {
     return null;
   }
 
-  const sanitized = input.replace(/[^a-zA-Z0-9.-]/g, "").toUpperCase().trim();
+  const sanitized = input.replace(/[^a-zA-Z0-9.^=-]/g, "").toUpperCase().trim();
 
-  if (sanitized.length === 0 || sanitized.length > 10) {
+  if (sanitized.length === 0 || sanitized.length > 12 || !SYMBOL_PATTERN.test(sanitized)) {
     return null;
   }
 
@@ -20,66 +29,165 @@ export function validateSymbol(input: string): string | null {
 }
 
 /**
- * Validates currency amount input
- * Must be a positive number less than 1 billion
+ * Decodes a [symbol] route segment; ^ and = arrive percent-encoded
  */
-export function validateAmount(input: string | number): number {
-  const num = typeof input === "string" ? parseFloat(input) : input;
-
-  if (isNaN(num) || num < 0 || num > 999999999) {
-    return 0;
+export function decodeSymbolParam(raw: string): string {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
   }
-
-  // Round to 2 decimal places
-  return Math.round(num * 100) / 100;
 }
 
 /**
- * Validates Yahoo Finance API response structure
+ * Validates symbol search text (tickers or company names)
+ * Allows letters, digits, spaces and common ticker punctuation
+ * Max length: 40 characters
  */
-export function validateYahooResponse(data: unknown): boolean {
-  if (!data || typeof data !== "object") {
-    return false;
+export function validateSearchQuery(input: string | null): string | null {
+  if (!input || typeof input !== "string") {
+    return null;
   }
 
-  const response = data as Record<string, unknown>;
+  const sanitized = input.replace(/[^a-zA-Z0-9 .&'^=-]/g, "").replace(/\s+/g, " ").trim();
 
-  if (!response.chart || typeof response.chart !== "object") {
-    return false;
+  if (sanitized.length === 0 || sanitized.length > 40) {
+    return null;
   }
 
-  const chart = response.chart as Record<string, unknown>;
+  return sanitized;
+}
 
-  if (!Array.isArray(chart.result) || chart.result.length === 0) {
-    return false;
-  }
+export const HISTORY_RANGES: HistoryRange[] = ["1d", "5d", "1mo", "6mo", "ytd", "1y", "5y", "max"];
+
+export const HISTORY_INTERVALS: HistoryInterval[] = ["1m", "5m", "15m", "1h", "1d", "1wk", "1mo"];
+
+// Intervals Yahoo serves for each range (intraday data only goes back so far)
+const ALLOWED_INTERVALS: Record<HistoryRange, HistoryInterval[]> = {
+  "1d": ["1m", "5m", "15m", "1h"],
+  "5d": ["1m", "5m", "15m", "1h", "1d"],
+  "1mo": ["5m", "15m", "1h", "1d"],
+  "6mo": ["1h", "1d", "1wk"],
+  ytd: ["1h", "1d", "1wk", "1mo"],
+  "1y": ["1h", "1d", "1wk", "1mo"],
+  "5y": ["1d", "1wk", "1mo"],
+  max: ["1d", "1wk", "1mo"],
+};
+
+const DEFAULT_INTERVALS: Record<HistoryRange, HistoryInterval> = {
+  "1d": "5m",
+  "5d": "1d",
+  "1mo": "1d",
+  "6mo": "1d",
+  ytd: "1d",
+  "1y": "1d",
+  "5y": "1wk",
+  max: "1mo",
+};
+
+/**
+ * Validates the history range query parameter
+ */
+export function validateRange(input: string | null): HistoryRange | null {
+  return HISTORY_RANGES.find((range) => range === input) ?? null;
+}
+
+/**
+ * Validates the candle interval query parameter
+ */
+export function validateInterval(input: string | null): HistoryInterval | null {
+  return HISTORY_INTERVALS.find((interval) => interval === input) ?? null;
+}
+
+/**
+ * Checks that the interval can be requested for the given range
+ */
+export function isAllowedInterval(range: HistoryRange, interval: HistoryInterval): boolean {
+  return ALLOWED_INTERVALS[range].includes(interval);
+}
 
-  const result = chart.result[0] as Record<string, unknown>;
+export function getAllowedIntervals(range: HistoryRange): HistoryInterval[] {
+  return ALLOWED_INTERVALS[range];
+}
 
-  if (!result.meta || typeof result.meta !== "object") {
-    return false;
+export function getDefaultInterval(range: HistoryRange): HistoryInterval {
+  return DEFAULT_INTERVALS[range];
+}
+
+export type HistoryQuery =
+  | { range: HistoryRange; interval: HistoryInterval; error?: undefined }
+  | { error: string; message: string };
+
+/**
+ * Reads the range and interval query parameters: range defaults to 5d, interval to the
+ * range's default, and the pair must be one Yahoo serves
+ */
+export function parseHistoryQuery(searchParams: URLSearchParams): HistoryQuery {
+  const range = validateRange(searchParams.get("range") ?? "5d");
+  if (!range) {
+    return { error: "Invalid range", message: "Range must be one of 1d, 5d, 1mo, 6mo, ytd, 1y, 5y, max" };
+  }
+
+  const rawInterval = searchParams.get("interval");
+  const interval = rawInterval ? validateInterval(rawInterval) : getDefaultInterval(range);
+  if (!interval || !isAllowedInterval(range, interval)) {
+    return {
+      error: "Invalid interval",
+      message: `Interval for range ${range} must be one of ${getAllowedIntervals(range).join(", ")}`,
+    };
   }
 
-  return true;
+  return { range, interval };
+}
+
+/**
+ * Parses a true/false query flag, returning the fallback when absent and null when malformed
+ */
+export function parseBooleanParam(input: string | null, fallback: boolean): boolean | null {
+  if (input === null) return fallback;
+  if (input === "true") return true;
+  if (input === "false") return false;
+  return null;
 }
 
 /**
- * Validates exchange rate API response
+ * Validates a calendar date in YYYY-MM-DD form, e.g. an option expiry
  */
-export function validateExchangeResponse(data: unknown): boolean {
-  if (!data || typeof data !== "object") {
-    return false;
+export function validateDateParam(input: string | null): string | null {
+  if (!input || !/^\d{4}-\d{2}-\d{2}$/.test(input)) {
+    return null;
   }
 
-  const response = data as Record<string, unknown>;
+  // Rejects dates that don't exist, like 2025-02-30
+  const date = new Date(`${input}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === input ? input : null;
+}
 
-  if (!response.rates || typeof response.rates !== "object") {
-    return false;
+/**
+ * Validates currency amount input
+ * Must be a positive number less than 1 billion
+ */
+export function validateAmount(input: string | number): number {
+  const num = typeof input === "string" ? parseFloat(input) : input;
+
+  if (isNaN(num) || num < 0 || num > 999999999) {
+    return 0;
   }
 
-  const rates = response.rates as Record<string, unknown>;
+  // Round to 2 decimal places
+  return Math.round(num * 100) / 100;
+}
+
+/**
+ * Validates an ISO 4217 currency code such as USD or JPY
+ */
+export function validateCurrencyCode(input: string | null): string | null {
+  if (!input || typeof input !== "string") {
+    return null;
+  }
 
-  return typeof rates.THB === "number" && rates.THB > 0;
+  const code = input.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
 }
 
 /**